@@ -1,6 +1,46 @@
 import { SchemaDiagram } from './components/SchemaDiagram';
-import { belongsToFkColumn, modelToTableName } from './components/draftToFlow';
-import type { ParsedDraft } from './components/draftToFlow';
+import { YamlEditor } from './components/YamlEditor';
+import { draftExtensions } from './components/draftCompletion';
+import { locateDiagnostics, syntaxErrorDiagnostic, type DraftDiagnostic, type ValidationDiagnostic } from './components/draftDiagnostics';
+import type { DraftValidationResult } from './components/draftValidation';
+import DraftValidationWorker from './components/draftValidation.worker?worker&inline';
+import { LAYOUT_DIRECTION_LABELS, type LayoutDirection, type NodePositions } from './components/autoLayout';
+import type { DiagramExportFormat, DiagramExportScope } from './components/diagramExport';
+import { diffDrafts, type DraftChangeKind } from './components/draftDiff';
+import { findRelationPath, formatRelationPath } from './components/relationPath';
+import { lintRelations, type RelationEntry } from './components/relationLint';
+import { DRAFT_TEXT_EXPORTERS, DRAFT_TEXT_FORMATS, type DraftTextFormat } from './components/draftExporters';
+import { DRAFT_IMPORT_FORMATS, codebaseModelToDraft, detectImportFormat, importDraft, type DraftImportFormat } from './components/draftImporters';
+import {
+    belongsToFkColumn,
+    draftPivotTables,
+    modelForeignKeys,
+    modelToTableName,
+    pivotFkColumn,
+    relationEdgeId,
+} from './components/draftToFlow';
+import {
+    INVERSE_RELATION,
+    RELATION_TYPES,
+    addColumn,
+    addModel,
+    addRelationship,
+    copyModels,
+    deleteModel,
+    inverseRelationEntry,
+    pasteModels,
+    relationEntry,
+    removeColumn,
+    renameColumn,
+    renameModel,
+    setColumnDefinition,
+    type DeleteModelOptions,
+    type DraftRefactoring,
+    type PastedModels,
+    type RelationType,
+} from './components/draftEdits';
+import { CHANGE_TEXT_CLASS, type ColumnEditActions, type ModelRefactorActions } from './components/ModelNode';
+import type { DraftModels, ParsedDraft } from './components/draftToFlow';
 import { Badge } from './components/ui/badge';
 import { Button } from './components/ui/button';
 import {
@@ -48,13 +88,15 @@ import {
     TooltipTrigger,
 } from './components/ui/tooltip';
 import { Head } from '@inertiajs/react';
-import { Check, Command as CommandIcon, ListTree, Loader2, MoonIcon, SunIcon } from 'lucide-react';
+import { AlertTriangle, Check, ChevronDown, ChevronRight, Command as CommandIcon, ListTree, Loader2, MoonIcon, SunIcon } from 'lucide-react';
 import { cn } from './lib/utils';
 import yaml from 'js-yaml';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Viewport } from 'reactflow';
 import {
     DRAFT_HISTORY_KEY,
     DRAFT_HISTORY_MAX,
+    DRAFT_PARSE_DEBOUNCE_MS,
     LARAVEL_RELATIONSHIPS_URL,
     RELATION_LABELS,
     STARTER_SUMMARIES,
@@ -64,7 +106,7 @@ function getSchemaSummary(draft: ParsedDraft | null): {
     modelCount: number;
     relationCount: number;
     relationList: string[];
-    relationEntries: { label: string; edgeId: string }[];
+    relationEntries: (RelationEntry & { label: string })[];
     tableNames: string[];
     fkList: string[];
 } {
@@ -72,7 +114,7 @@ function getSchemaSummary(draft: ParsedDraft | null): {
     const models = draft.models;
     const modelNames = Object.keys(models);
     const relationList: string[] = [];
-    const relationEntries: { label: string; edgeId: string }[] = [];
+    const relationEntries: (RelationEntry & { label: string })[] = [];
     const fkList: string[] = [];
     for (const source of modelNames) {
         const rels = models[source].relationships;
@@ -88,16 +130,22 @@ function getSchemaSummary(draft: ParsedDraft | null): {
                 if (target && modelNames.includes(target)) {
                     const relLabel = `${source} ${label} ${target}`;
                     relationList.push(relLabel);
-                    const edgeId = `${source}-${relType}-${target}-${targetEntry.replace(/:/g, '_')}`;
-                    relationEntries.push({ label: relLabel, edgeId });
-                    if (relType === 'belongsTo') {
-                        fkList.push(`${modelToTableName(source)}.${belongsToFkColumn(targetEntry)}`);
-                    }
+                    const edgeId = relationEdgeId(source, relType, targetEntry);
+                    relationEntries.push({ label: relLabel, edgeId, source, relType, target, entry: targetEntry });
                 }
             }
         }
     }
-    const tableNames = modelNames.map(modelToTableName);
+    for (const source of modelNames) {
+        for (const fk of modelForeignKeys(models[source] ?? {})) {
+            if (modelNames.includes(fk.target)) fkList.push(`${modelToTableName(source)}.${fk.column}`);
+        }
+    }
+    const pivots = draftPivotTables(models);
+    for (const pivot of pivots) {
+        fkList.push(...pivot.models.map((m) => `${pivot.table}.${pivotFkColumn(m)}`));
+    }
+    const tableNames = [...modelNames.map(modelToTableName), ...pivots.map((p) => p.table)];
     return { modelCount: modelNames.length, relationCount: relationList.length, relationList, relationEntries, tableNames, fkList };
 }
 
@@ -159,6 +207,78 @@ export interface ArchitectStudioProps {
     variants?: GeneratorVariants;
     features?: Record<string, boolean>;
     schema_hints?: Record<string, SchemaHint>;
+    /** Diagram layout sidecar (draft.layout.json next to draft_path). */
+    layout?: DraftLayout;
+}
+
+/** A named diagram view, shared through the layout sidecar. Shows every model unless `models`, `group` or `touching` is set. */
+export interface DiagramView {
+    name: string;
+    /** Explicit list of models to show. */
+    models?: string[];
+    /** Show one domain group. */
+    group?: string;
+    /** Show this model and every model related to it. */
+    touching?: string;
+    /** Pan and zoom; the view fits the shown models when absent. */
+    viewport?: { x: number; y: number; zoom: number };
+    showMinimap: boolean;
+}
+
+export interface DraftLayout {
+    positions?: NodePositions;
+    views?: DiagramView[];
+}
+
+/** Models a view shows, or null for all of them. */
+function diagramViewModels(view: DiagramView, models: DraftModels, relations: RelationEntry[]): string[] | null {
+    if (view.group) {
+        return Object.keys(models).filter((name) => {
+            const group = models[name]?.group;
+            return typeof group === 'string' && group.trim() === view.group;
+        });
+    }
+    if (view.touching) {
+        const model = view.touching;
+        const related = [
+            ...relations.flatMap((r) => (r.source === model ? [r.target] : r.target === model ? [r.source] : [])),
+            ...modelForeignKeys(models[model] ?? {}).map((fk) => fk.target),
+            ...Object.keys(models).filter((name) => modelForeignKeys(models[name] ?? {}).some((fk) => fk.target === model)),
+        ];
+        return [...new Set([model, ...related])];
+    }
+    return view.models ?? null;
+}
+
+/** Keep the previous object for every model whose definition did not change, so per-model memoization holds. */
+function shareUnchangedModels(previous: ParsedDraft | null, next: ParsedDraft): ParsedDraft {
+    if (!previous?.models || !next.models || typeof next.models !== 'object') return next;
+    const models: DraftModels = {};
+    for (const [name, def] of Object.entries(next.models)) {
+        const prev = previous.models[name];
+        models[name] = prev !== undefined && JSON.stringify(prev) === JSON.stringify(def) ? prev : def;
+    }
+    return { ...next, models };
+}
+
+/** Parse draft YAML once for the diagram, summary and error strip. An empty draft is neither a draft nor an error. */
+function parseDraftYaml(
+    source: string,
+    previous: ParsedDraft | null,
+): { source: string; draft: ParsedDraft | null; error: string | null; /** Offset of a syntax error in `source`. */ errorAt: number | null } {
+    if (!source.trim()) return { source, draft: null, error: null, errorAt: null };
+    try {
+        const data = yaml.load(source) as unknown;
+        const draft = data && typeof data === 'object' && 'models' in data ? (data as ParsedDraft) : { models: {} };
+        return { source, draft: shareUnchangedModels(previous, draft), error: null, errorAt: null };
+    } catch (e) {
+        return {
+            source,
+            draft: null,
+            error: e instanceof Error ? e.message : 'Invalid YAML',
+            errorAt: e instanceof yaml.YAMLException ? e.mark.position : null,
+        };
+    }
 }
 
 function getCsrfToken(): string | null {
@@ -182,12 +302,15 @@ export default function ArchitectStudio({
     variants,
     features,
     schema_hints,
+    layout,
 }: ArchitectStudioProps) {
     const [draftYaml, setDraftYaml] = useState(initialDraft ?? '');
     const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
     const [validateResult, setValidateResult] = useState<{
         valid: boolean;
         errors: string[];
+        /** The errors again, with their path or line when the server knows it. */
+        diagnostics: ValidationDiagnostic[];
     } | null>(null);
     const [planResult, setPlanResult] = useState<{
         steps: Array<{ type: string; name: string; description: string; path_hint?: string }>;
@@ -200,7 +323,7 @@ export default function ArchitectStudio({
         warnings: string[];
     } | null>(null);
     const [resultPanelOpen, setResultPanelOpen] = useState(false);
-    const [activeResultTab, setActiveResultTab] = useState<'validate' | 'plan' | 'build'>('validate');
+    const [activeResultTab, setActiveResultTab] = useState<'validate' | 'relations' | 'plan' | 'build'>('validate');
     const [isValidating, setIsValidating] = useState(false);
     const [isPlanning, setIsPlanning] = useState(false);
     const [isBuilding, setIsBuilding] = useState(false);
@@ -226,24 +349,83 @@ export default function ArchitectStudio({
 
     const [importConfirmOpen, setImportConfirmOpen] = useState(false);
     const [importedYaml, setImportedYaml] = useState<string | null>(null);
+    /** Where `importedYaml` came from, for the confirm dialog title. */
+    const [importSource, setImportSource] = useState('codebase');
+    const [schemaImportOpen, setSchemaImportOpen] = useState(false);
+    const [schemaImportText, setSchemaImportText] = useState('');
+    const [schemaImportFormat, setSchemaImportFormat] = useState<DraftImportFormat | 'auto'>('auto');
+    const [schemaImportError, setSchemaImportError] = useState<string | null>(null);
     const [importLoading, setImportLoading] = useState(false);
 
     const [wizardOpen, setWizardOpen] = useState<'addModel' | 'addCrud' | 'addRelationship' | 'addPage' | null>(null);
     const [wizardLoading, setWizardLoading] = useState(false);
     const [wizardForm, setWizardForm] = useState<Record<string, string | boolean>>({});
 
+    const [pendingConnection, setPendingConnection] = useState<{
+        source: string;
+        target: string;
+        type: RelationType;
+        alias: string;
+        addInverse: boolean;
+        inverseType: RelationType;
+    } | null>(null);
+    const [connectionError, setConnectionError] = useState<string | null>(null);
+    /** Model being renamed or deleted from its card menu; the dialog previews every reference that changes. */
+    const [modelRefactor, setModelRefactor] = useState<{ kind: 'rename' | 'delete'; model: string } | null>(null);
+    const [renameModelTo, setRenameModelTo] = useState('');
+    /** Draft models selected in the diagram; copied to the clipboard as YAML. */
+    const [selectedModels, setSelectedModels] = useState<string[]>([]);
+    /** Models pasted from another draft, waiting for the user to confirm how they merge. */
+    const [modelPaste, setModelPaste] = useState<{ clipboard: string; keepOutsideRelations: boolean } | null>(null);
+    const [deleteModelOptions, setDeleteModelOptions] = useState<DeleteModelOptions>({
+        relations: true,
+        foreignKeys: true,
+        actionsAndPages: true,
+    });
+    const [draftEditError, setDraftEditError] = useState<string | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+    /** Why the last clipboard write failed; cleared by the next one that works. */
+    const [copyError, setCopyError] = useState<string | null>(null);
+    /** "Changes since last build" mode: the diagram and sidebar are diffed against the last built draft. */
+    const [showChanges, setShowChanges] = useState(false);
+    const [buildState, setBuildState] = useState<{
+        builtDraft: ParsedDraft | null;
+        lastRun: string | null;
+        /** Migration file the last build wrote, by table. */
+        migrations: Record<string, string>;
+    } | null>(null);
+    const [buildStateError, setBuildStateError] = useState<string | null>(null);
+    const [textExportFormat, setTextExportFormat] = useState<DraftTextFormat | null>(null);
+    const [textExportCopied, setTextExportCopied] = useState(false);
+    const draftYamlRef = useRef(draftYaml);
+    draftYamlRef.current = draftYaml;
+
     const [paletteOpen, setPaletteOpen] = useState(false);
     const [showYamlSplit, setShowYamlSplit] = useState(false);
     const [modelListPanelOpen, setModelListPanelOpen] = useState(false);
     const [focusNodeId, setFocusNodeId] = useState<string | null>(null);
     const [modelListFilter, setModelListFilter] = useState('');
     const [selectedRelationId, setSelectedRelationId] = useState<string | null>(null);
+    /** Endpoints of the relationship path finder; null while it is closed. */
+    const [pathFinder, setPathFinder] = useState<{ from: string; to: string } | null>(null);
     const [showMinimap, setShowMinimap] = useState(true);
+    const [diagramViews, setDiagramViews] = useState<DiagramView[]>(() => layout?.views ?? []);
+    /** View shown in the diagram; a fresh object on every switch so its viewport is restored again. */
+    const [activeView, setActiveView] = useState<DiagramView | null>(null);
+    /** Save-view dialog: name and which models the view shows (`all`, `selection`, `group:X`, `touching:X`). */
+    const [viewDraft, setViewDraft] = useState<{ name: string; scope: string; keepViewport: boolean } | null>(null);
+    const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>('TB');
+    const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
     const [previewCode, setPreviewCode] = useState<string | null>(null);
     const [previewLoading, setPreviewLoading] = useState(false);
     const [previewItem, setPreviewItem] = useState<{ type: string; name: string } | null>(null);
     const [featuresPanelOpen, setFeaturesPanelOpen] = useState(false);
     const fitViewRef = useRef<(() => void) | null>(null);
+    const viewportRef = useRef<{ get: () => Viewport; set: (viewport: Viewport) => void } | null>(null);
+    const relayoutRef = useRef<((direction?: LayoutDirection) => void) | null>(null);
+    const exportRef = useRef<((format: DiagramExportFormat, scope?: DiagramExportScope) => Promise<void>) | null>(null);
+    const [nodePositions, setNodePositions] = useState<NodePositions>(() => layout?.positions ?? {});
+    const savedPositionsRef = useRef(nodePositions);
 
     // Compute available features count
     const availableFeaturesCount = useMemo(() => {
@@ -264,18 +446,82 @@ export default function ArchitectStudio({
         return [];
     });
 
-    const parsedDraft = useMemo((): ParsedDraft | null => {
-        if (!draftYaml.trim()) return null;
-        try {
-            const data = yaml.load(draftYaml) as unknown;
-            if (data && typeof data === 'object' && 'models' in data) {
-                return data as ParsedDraft;
-            }
-            return { models: {} };
-        } catch {
-            return null;
-        }
+    // One parse per pause in typing instead of one per keystroke and consumer.
+    const [draftParse, setDraftParse] = useState(() => parseDraftYaml(draftYaml, null));
+    useEffect(() => {
+        const t = setTimeout(() => setDraftParse((prev) => parseDraftYaml(draftYaml, prev.draft)), DRAFT_PARSE_DEBOUNCE_MS);
+        return () => clearTimeout(t);
     }, [draftYaml]);
+    const parsedDraft = draftParse.draft;
+    const parseError = draftParse.error;
+
+    // Live validation in a worker, a pause after typing; Validate still runs the server check Build relies on.
+    const [liveDiagnostics, setLiveDiagnostics] = useState<DraftDiagnostic[]>([]);
+    const validationWorkerRef = useRef<Worker | null>(null);
+    useEffect(() => {
+        if (typeof Worker === 'undefined') return;
+        const worker = new DraftValidationWorker();
+        worker.onmessage = (event: MessageEvent<DraftValidationResult>) => {
+            // Answers for text that has changed since are dropped; the newer text is already queued.
+            if (event.data.source === draftYamlRef.current) setLiveDiagnostics(event.data.diagnostics);
+        };
+        validationWorkerRef.current = worker;
+        return () => {
+            worker.terminate();
+            validationWorkerRef.current = null;
+        };
+    }, []);
+    useEffect(() => {
+        const t = setTimeout(() => validationWorkerRef.current?.postMessage(draftYaml), DRAFT_PARSE_DEBOUNCE_MS);
+        return () => clearTimeout(t);
+    }, [draftYaml]);
+    const liveErrorCount = useMemo(() => liveDiagnostics.filter((d) => d.severity === 'error').length, [liveDiagnostics]);
+
+    const yamlEditorRef = useRef<{ reveal: (pos: number) => void } | null>(null);
+    /** Validation errors placed in the draft as of the last parse (null where they have no location). */
+    const validationLocations = useMemo(
+        () => locateDiagnostics(draftParse.source, validateResult?.diagnostics ?? []),
+        [draftParse.source, validateResult],
+    );
+    const editorDiagnostics = useMemo(() => {
+        // The server repeats most live findings; show each one once.
+        const seen = new Set<string>();
+        const located = [...liveDiagnostics, ...validationLocations.filter((d): d is DraftDiagnostic => d !== null)].filter((d) => {
+            const key = `${d.from}:${d.to}:${d.message}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+        if (draftParse.error === null || draftParse.errorAt === null) return located;
+        return [syntaxErrorDiagnostic(draftYaml, draftParse.error, draftParse.errorAt), ...located];
+    }, [liveDiagnostics, validationLocations, draftParse, draftYaml]);
+    /** Open the YAML pane and put the cursor on a diagnostic. */
+    const revealInDraft = useCallback((pos: number) => {
+        setShowYamlSplit(true);
+        // The editor mounts with the pane; its ref is set once React has committed.
+        requestAnimationFrame(() => yamlEditorRef.current?.reveal(pos));
+    }, []);
+
+    /** A build ran, but its state file predates draft snapshots (or the snapshot is unreadable): nothing to compare with. */
+    const buildSnapshotMissing = buildState !== null && buildState.lastRun !== null && buildState.builtDraft === null;
+    const draftDiff = useMemo(
+        () =>
+            showChanges && buildState && parsedDraft && !buildSnapshotMissing
+                ? diffDrafts(buildState.builtDraft, parsedDraft, buildState.migrations)
+                : null,
+        [showChanges, buildState, parsedDraft, buildSnapshotMissing],
+    );
+    const relationPath = useMemo(
+        () => (pathFinder && parsedDraft && pathFinder.from && pathFinder.to ? findRelationPath(parsedDraft, pathFinder.from, pathFinder.to) : null),
+        [pathFinder, parsedDraft],
+    );
+    const relationPathEdgeIds = useMemo(() => relationPath?.map((step) => step.edgeId) ?? [], [relationPath]);
+
+    const changeCounts = useMemo(() => {
+        const counts: Record<DraftChangeKind, number> = { added: 0, modified: 0, removed: 0 };
+        for (const change of Object.values(draftDiff?.models ?? {})) counts[change.kind]++;
+        return counts;
+    }, [draftDiff]);
 
     const wizardModelOptions = useMemo(() => {
         const fromApp = existing_models.map((m) => m.name);
@@ -283,16 +529,6 @@ export default function ArchitectStudio({
         return [...new Set([...fromApp, ...fromDraft])].sort();
     }, [existing_models, parsedDraft?.models]);
 
-    const parseError = useMemo((): string | null => {
-        if (!draftYaml.trim()) return null;
-        try {
-            yaml.load(draftYaml);
-            return null;
-        } catch (e) {
-            return e instanceof Error ? e.message : 'Invalid YAML';
-        }
-    }, [draftYaml]);
-
     const hasRelations = useMemo(() => {
         if (!parsedDraft?.models) return false;
         for (const def of Object.values(parsedDraft.models)) {
@@ -303,6 +539,38 @@ export default function ArchitectStudio({
     }, [parsedDraft]);
 
     const schemaSummary = useMemo(() => getSchemaSummary(parsedDraft), [parsedDraft]);
+    const relationFindings = useMemo(
+        () => (parsedDraft ? lintRelations(parsedDraft.models ?? {}, schemaSummary.relationEntries) : []),
+        [parsedDraft, schemaSummary],
+    );
+    const textExport = useMemo(
+        () => (textExportFormat && parsedDraft ? DRAFT_TEXT_EXPORTERS[textExportFormat](parsedDraft) : ''),
+        [textExportFormat, parsedDraft],
+    );
+
+    const copyTextExport = useCallback(() => {
+        navigator.clipboard.writeText(textExport).then(
+            () => {
+                setCopyError(null);
+                setTextExportCopied(true);
+                setTimeout(() => setTextExportCopied(false), 1500);
+            },
+            () => {
+                setTextExportCopied(false);
+                setCopyError('The browser did not allow writing the export to the clipboard.');
+            },
+        );
+    }, [textExport]);
+
+    const downloadTextExport = useCallback(() => {
+        if (!textExportFormat) return;
+        const url = URL.createObjectURL(new Blob([textExport], { type: 'text/plain' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `draft.${DRAFT_TEXT_FORMATS[textExportFormat].extension}`;
+        a.click();
+        URL.revokeObjectURL(url);
+    }, [textExport, textExportFormat]);
 
     const modelNames = useMemo(
         () => (parsedDraft?.models ? Object.keys(parsedDraft.models) : []),
@@ -313,6 +581,32 @@ export default function ArchitectStudio({
         if (!q) return modelNames;
         return modelNames.filter((n) => n.toLowerCase().includes(q));
     }, [modelNames, modelListFilter]);
+    /** Filtered models by domain group (`group:` in the draft), groups in draft order and ungrouped last. */
+    const groupedModelNames = useMemo(() => {
+        const groups = new Map<string | null, string[]>();
+        for (const name of filteredModelNames) {
+            const group = parsedDraft?.models[name]?.group;
+            const key = typeof group === 'string' && group.trim() ? group.trim() : null;
+            groups.set(key, [...(groups.get(key) ?? []), name]);
+        }
+        const ungrouped = groups.get(null);
+        groups.delete(null);
+        return [...groups.entries(), ...(ungrouped ? [[null, ungrouped] as const] : [])].map(([group, names]) => ({ group, names }));
+    }, [filteredModelNames, parsedDraft]);
+    const draftCompletion = useMemo(
+        () => ({ models: [...modelNames, ...existing_models.map((m) => m.name)], extensions: draftExtensions(packages, schema_hints) }),
+        [modelNames, existing_models, packages, schema_hints],
+    );
+    const modelGroupNames = useMemo(() => {
+        const groups = new Set<string>();
+        for (const def of Object.values(parsedDraft?.models ?? {})) {
+            if (typeof def?.group === 'string' && def.group.trim()) groups.add(def.group.trim());
+        }
+        return [...groups];
+    }, [parsedDraft]);
+    const toggleGroupCollapsed = useCallback((group: string) => {
+        setCollapsedGroups((prev) => (prev.includes(group) ? prev.filter((g) => g !== group) : [...prev, group]));
+    }, []);
 
     const pushDraftToHistory = useCallback((yamlContent: string) => {
         if (!yamlContent.trim()) return;
@@ -359,6 +653,105 @@ export default function ArchitectStudio({
         [],
     );
 
+    // Without the `layout` prop the sidecar is read from the API; until it is, nothing is written
+    // back, so stored positions and views are not replaced by the ones of this session.
+    const [layoutLoaded, setLayoutLoaded] = useState(layout !== undefined);
+    useEffect(() => {
+        if (layout !== undefined) return;
+        apiFetch('/architect/api/layout')
+            .then(({ ok, data }) => {
+                if (!ok) return;
+                const stored = data as DraftLayout;
+                setNodePositions((positions) => {
+                    const merged = { ...stored.positions, ...positions };
+                    savedPositionsRef.current = merged;
+                    return merged;
+                });
+                setDiagramViews((views) => [...(stored.views ?? []).filter((view) => !views.some((v) => v.name === view.name)), ...views]);
+                setLayoutLoaded(true);
+            })
+            .catch(() => {
+                // positions and views stay in memory for this session
+            });
+    }, [layout, apiFetch]);
+
+    useEffect(() => {
+        if (!layoutLoaded || nodePositions === savedPositionsRef.current) return;
+        const t = setTimeout(() => {
+            savedPositionsRef.current = nodePositions;
+            apiFetch('/architect/api/layout', {
+                method: 'PUT',
+                body: JSON.stringify({ positions: nodePositions }),
+            }).catch(() => {
+                // positions stay in memory; next drag retries
+            });
+        }, 600);
+        return () => clearTimeout(t);
+    }, [layoutLoaded, nodePositions, apiFetch]);
+
+    const visibleModels = useMemo(
+        () => (activeView && parsedDraft ? diagramViewModels(activeView, parsedDraft.models ?? {}, schemaSummary.relationEntries) : null),
+        [activeView, parsedDraft, schemaSummary],
+    );
+
+    const storeDiagramViews = useCallback(
+        (views: DiagramView[]) => {
+            setDiagramViews(views);
+            if (!layoutLoaded) return;
+            apiFetch('/architect/api/layout', {
+                method: 'PUT',
+                body: JSON.stringify({ views }),
+            }).catch(() => {
+                // views stay in memory for this session
+            });
+        },
+        [layoutLoaded, apiFetch],
+    );
+
+    const showDiagramView = useCallback((view: DiagramView | null) => {
+        setActiveView(view && { ...view });
+        if (view) setShowMinimap(view.showMinimap);
+    }, []);
+
+    // Restore the view's viewport once the diagram shows its models (React Flow needs a frame to measure them).
+    useEffect(() => {
+        if (!activeView) return;
+        const frame = requestAnimationFrame(() => {
+            if (activeView.viewport) viewportRef.current?.set(activeView.viewport);
+            else fitViewRef.current?.();
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [activeView]);
+
+    const openSaveViewDialog = useCallback(() => {
+        const scope = activeView?.group
+            ? `group:${activeView.group}`
+            : activeView?.touching
+              ? `touching:${activeView.touching}`
+              : selectedModels.length > 0 || activeView?.models
+                ? 'selection'
+                : 'all';
+        setViewDraft({ name: activeView?.name ?? '', scope, keepViewport: true });
+    }, [activeView, selectedModels]);
+
+    const saveDiagramView = useCallback(() => {
+        if (!viewDraft?.name.trim()) return;
+        const name = viewDraft.name.trim();
+        const [kind, model] = viewDraft.scope.split(/:(.*)/);
+        const viewport = viewDraft.keepViewport ? viewportRef.current?.get() : undefined;
+        const view: DiagramView = {
+            name,
+            ...(kind === 'selection' ? { models: selectedModels.length > 0 ? selectedModels : (activeView?.models ?? []) } : {}),
+            ...(kind === 'group' ? { group: model } : {}),
+            ...(kind === 'touching' ? { touching: model } : {}),
+            ...(viewport ? { viewport } : {}),
+            showMinimap,
+        };
+        storeDiagramViews([...diagramViews.filter((v) => v.name !== name), view]);
+        setActiveView(view);
+        setViewDraft(null);
+    }, [viewDraft, selectedModels, activeView, showMinimap, diagramViews, storeDiagramViews]);
+
     const fetchPreview = useCallback(async (type: string, name: string) => {
         setPreviewItem({ type, name });
         setPreviewLoading(true);
@@ -413,10 +806,12 @@ export default function ArchitectStudio({
                 method: 'POST',
                 body: JSON.stringify({ yaml: draftYaml }),
             });
-            const result = data as { valid?: boolean; errors?: string[] };
+            const result = data as { valid?: boolean; errors?: string[]; diagnostics?: ValidationDiagnostic[] };
+            const errors = result.errors ?? (ok ? [] : ['Request failed']);
             setValidateResult({
                 valid: result.valid ?? false,
-                errors: result.errors ?? (ok ? [] : ['Request failed']),
+                errors,
+                diagnostics: result.diagnostics ?? errors.map((message) => ({ message })),
             });
         } finally {
             setIsValidating(false);
@@ -451,6 +846,7 @@ export default function ArchitectStudio({
                 setValidateResult({
                     valid: false,
                     errors: [result.error ?? 'Plan failed'],
+                    diagnostics: [{ message: result.error ?? 'Plan failed' }],
                 });
             }
         } finally {
@@ -485,6 +881,32 @@ export default function ArchitectStudio({
         }
     }, [apiFetch]);
 
+    const loadBuildState = useCallback(async () => {
+        const { ok, data } = await apiFetch('/architect/api/status');
+        if (!ok || !data || typeof data !== 'object') {
+            setBuildStateError('Could not load the last build state.');
+            return;
+        }
+        const state = data as { built_draft?: string | null; lastRun?: string | null; generated?: Record<string, { table?: string }> };
+        let builtDraft: ParsedDraft | null = null;
+        try {
+            const built = state.built_draft ? (yaml.load(state.built_draft) as unknown) : null;
+            if (built && typeof built === 'object' && 'models' in built) builtDraft = built as ParsedDraft;
+        } catch {
+            // an unreadable snapshot counts as missing
+        }
+        const migrations: Record<string, string> = {};
+        for (const [path, meta] of Object.entries(state.generated ?? {})) {
+            if (meta?.table) migrations[meta.table] = path.split('/').pop() ?? path;
+        }
+        setBuildState({ builtDraft, lastRun: state.lastRun ?? null, migrations });
+        setBuildStateError(null);
+    }, [apiFetch]);
+
+    useEffect(() => {
+        if (showChanges) loadBuildState();
+    }, [showChanges, buildResult, loadBuildState]);
+
     const handleRevert = useCallback(async () => {
         setBuildResult(null);
         setActiveResultTab('build');
@@ -708,10 +1130,26 @@ export default function ArchitectStudio({
         setImportLoading(false);
         if (ok && data && typeof data === 'object' && 'models' in data) {
             setImportedYaml(yaml.dump(data as object, { lineWidth: -1 }));
+            setImportSource('codebase');
             setImportConfirmOpen(true);
         }
     }, [apiFetch]);
 
+    /** Parse pasted/uploaded DBML or Mermaid and hand the draft to the import confirm dialog. */
+    const runSchemaImport = useCallback(() => {
+        const format = schemaImportFormat === 'auto' ? detectImportFormat(schemaImportText) : schemaImportFormat;
+        try {
+            const draft = importDraft(schemaImportText, format);
+            setImportedYaml(yaml.dump(draft, { lineWidth: -1 }));
+            setImportSource(DRAFT_IMPORT_FORMATS[format]);
+            setSchemaImportError(null);
+            setSchemaImportOpen(false);
+            setImportConfirmOpen(true);
+        } catch (e) {
+            setSchemaImportError(e instanceof Error ? e.message : 'Could not parse the schema.');
+        }
+    }, [schemaImportFormat, schemaImportText]);
+
     const confirmImport = useCallback(
         (replace: boolean) => {
             if (!importedYaml) return;
@@ -733,6 +1171,171 @@ export default function ArchitectStudio({
         [importedYaml, draftYaml],
     );
 
+    /** Apply a YAML edit from the diagram; reads the ref so several edits in one event chain. */
+    const applyDraftEdit = useCallback((edit: (source: string) => string) => {
+        try {
+            const next = edit(draftYamlRef.current);
+            draftYamlRef.current = next;
+            setDraftYaml(next);
+            setDraftEditError(null);
+        } catch (e) {
+            setDraftEditError(e instanceof Error ? e.message : 'Could not update the draft YAML.');
+        }
+    }, []);
+
+    const columnEdits = useMemo(
+        (): ColumnEditActions => ({
+            addColumn: (model, column, definition) => applyDraftEdit((src) => addColumn(src, model, column, definition)),
+            renameColumn: (model, column, newName) => applyDraftEdit((src) => renameColumn(src, model, column, newName)),
+            setColumnDefinition: (model, column, definition) =>
+                applyDraftEdit((src) => setColumnDefinition(src, model, column, definition)),
+            removeColumn: (model, column) => applyDraftEdit((src) => removeColumn(src, model, column)),
+        }),
+        [applyDraftEdit],
+    );
+
+    /** Import an existing app model (class plus table columns) and add it to the draft (see codebaseModelToDraft). */
+    const bringIntoDraft = useCallback(
+        async (model: string) => {
+            const { ok, data } = await apiFetch('/architect/api/import', {
+                method: 'POST',
+                body: JSON.stringify({ models: [model], merge_schema_columns: true }),
+            });
+            const definition =
+                ok && data && typeof data === 'object' && 'models' in data ? (data as ParsedDraft).models?.[model] : undefined;
+            if (!definition) {
+                setDraftEditError(`Could not import ${model} from the codebase.`);
+                return;
+            }
+            const knownModels = [...modelNames, ...existing_models.map((m) => m.name)];
+            applyDraftEdit((src) => addModel(src, model, codebaseModelToDraft(definition, knownModels)));
+        },
+        [apiFetch, applyDraftEdit, modelNames, existing_models],
+    );
+
+    const modelRefactors = useMemo(
+        (): ModelRefactorActions => ({
+            renameModel: (model) => {
+                setRenameModelTo(model);
+                setModelRefactor({ kind: 'rename', model });
+            },
+            deleteModel: (model) => setModelRefactor({ kind: 'delete', model }),
+        }),
+        [],
+    );
+
+    const runModelRefactor = useCallback(
+        (source: string): DraftRefactoring => {
+            if (!modelRefactor) return { source, changes: [] };
+            return modelRefactor.kind === 'rename'
+                ? renameModel(source, modelRefactor.model, renameModelTo)
+                : deleteModel(source, modelRefactor.model, deleteModelOptions);
+        },
+        [modelRefactor, renameModelTo, deleteModelOptions],
+    );
+
+    const modelRefactorPreview = useMemo((): { changes: DraftRefactoring['changes']; error: string | null } => {
+        if (!modelRefactor) return { changes: [], error: null };
+        try {
+            return { changes: runModelRefactor(draftYaml).changes, error: null };
+        } catch (e) {
+            return { changes: [], error: e instanceof Error ? e.message : 'Could not refactor the draft.' };
+        }
+    }, [modelRefactor, runModelRefactor, draftYaml]);
+
+    /** Apply the previewed rename or delete as one draft edit, carrying the model's diagram position along. */
+    const applyModelRefactor = useCallback(() => {
+        if (!modelRefactor) return;
+        applyDraftEdit((src) => runModelRefactor(src).source);
+        const { kind, model } = modelRefactor;
+        const renamedTo = renameModelTo.trim();
+        setNodePositions((positions) => {
+            if (!(model in positions)) return positions;
+            const { [model]: position, ...rest } = positions;
+            return kind === 'rename' ? { ...rest, [renamedTo]: position } : rest;
+        });
+        setModelRefactor(null);
+    }, [modelRefactor, renameModelTo, runModelRefactor, applyDraftEdit]);
+
+    const handleSelectionChange = useCallback((models: string[]) => {
+        setSelectedModels((prev) => (prev.join('\n') === models.join('\n') ? prev : models));
+    }, []);
+
+    const modelPastePreview = useMemo((): (Omit<PastedModels, 'source'> & { error: string | null }) | null => {
+        if (!modelPaste) return null;
+        try {
+            return { ...pasteModels(draftYaml, modelPaste.clipboard, modelPaste.keepOutsideRelations), error: null };
+        } catch (e) {
+            return { renamed: {}, models: [], outside: [], error: e instanceof Error ? e.message : 'Could not read the pasted models.' };
+        }
+    }, [modelPaste, draftYaml]);
+
+    const applyModelPaste = useCallback(() => {
+        if (!modelPaste) return;
+        applyDraftEdit((src) => pasteModels(src, modelPaste.clipboard, modelPaste.keepOutsideRelations).source);
+        setModelPaste(null);
+    }, [modelPaste, applyDraftEdit]);
+
+    // Copy and paste of selected models while focus is outside text fields (the YAML editor keeps its own clipboard).
+    useEffect(() => {
+        const inTextField = (target: EventTarget | null) =>
+            target instanceof HTMLElement &&
+            (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+        const onCopy = (e: ClipboardEvent) => {
+            if (inTextField(e.target) || selectedModels.length === 0 || parseError || !e.clipboardData) return;
+            if (window.getSelection()?.toString()) return;
+            e.clipboardData.setData('text/plain', copyModels(draftYamlRef.current, selectedModels));
+            e.preventDefault();
+        };
+        const onPaste = (e: ClipboardEvent) => {
+            if (inTextField(e.target) || parseError || !e.clipboardData) return;
+            const text = e.clipboardData.getData('text/plain');
+            let pasted: unknown;
+            try {
+                pasted = yaml.load(text);
+            } catch {
+                return;
+            }
+            const models = (pasted as ParsedDraft | null)?.models;
+            if (!models || typeof models !== 'object' || Object.keys(models).length === 0) return;
+            e.preventDefault();
+            setModelPaste({ clipboard: text, keepOutsideRelations: true });
+        };
+        window.addEventListener('copy', onCopy);
+        window.addEventListener('paste', onPaste);
+        return () => {
+            window.removeEventListener('copy', onCopy);
+            window.removeEventListener('paste', onPaste);
+        };
+    }, [selectedModels, parseError]);
+
+    const handleConnectModels = useCallback((source: string, target: string) => {
+        setConnectionError(null);
+        setPendingConnection({
+            source,
+            target,
+            type: 'belongsTo',
+            alias: '',
+            addInverse: true,
+            inverseType: 'hasMany',
+        });
+    }, []);
+
+    const applyConnection = useCallback(() => {
+        if (!pendingConnection) return;
+        const { source, target, type, alias, addInverse, inverseType } = pendingConnection;
+        try {
+            let next = addRelationship(draftYaml, source, type, relationEntry(target, alias));
+            if (addInverse && INVERSE_RELATION[type]) {
+                next = addRelationship(next, target, inverseType, inverseRelationEntry(source, type, inverseType, alias));
+            }
+            setDraftYaml(next);
+            setPendingConnection(null);
+        } catch (e) {
+            setConnectionError(e instanceof Error ? e.message : 'Could not update the draft YAML.');
+        }
+    }, [pendingConnection, draftYaml]);
+
     useEffect(() => {
         const onKeyDown = (e: KeyboardEvent) => {
             const target = e.target as HTMLElement;
@@ -1039,6 +1642,9 @@ export default function ArchitectStudio({
                                 >
                                     Import from codebase
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setSchemaImportOpen(true)}>
+                                    Import DBML / Mermaid…
+                                </DropdownMenuItem>
                                 <div className="my-1 border-t border-sidebar-border" />
                                 <DropdownMenuItem onClick={() => setShowYamlSplit((v) => !v)}>
                                     {showYamlSplit ? 'Diagram only' : 'YAML split'}
@@ -1086,6 +1692,9 @@ export default function ArchitectStudio({
                                 >
                                     Import from codebase
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setSchemaImportOpen(true)}>
+                                    Import DBML / Mermaid…
+                                </DropdownMenuItem>
                             </DropdownMenuContent>
                         </DropdownMenu>
                         <div className="hidden items-center gap-1.5 border-r border-sidebar-border pr-2 md:flex md:pr-3">
@@ -1239,10 +1848,65 @@ export default function ArchitectStudio({
                         </div>
                         <span className="text-muted-foreground/60">·</span>
                         {parseError && (
-                            <span className="text-destructive" title={parseError}>
+                            <button
+                                type="button"
+                                className="text-destructive hover:underline disabled:no-underline"
+                                title={parseError}
+                                onClick={() => draftParse.errorAt !== null && revealInDraft(draftParse.errorAt)}
+                                disabled={draftParse.errorAt === null}
+                            >
                                 Invalid YAML{parseError.length > 0 ? `: ${parseError.slice(0, 50)}${parseError.length > 50 ? '…' : ''}` : ''}
+                            </button>
+                        )}
+                        {draftEditError && (
+                            <span className="text-destructive" title={draftEditError}>
+                                Edit failed: {draftEditError}
+                            </span>
+                        )}
+                        {exportError && (
+                            <span className="text-destructive" title={exportError}>
+                                Export failed: {exportError}
                             </span>
                         )}
+                        {copyError && (
+                            <span className="text-destructive" title={copyError}>
+                                Copy failed: {copyError}
+                            </span>
+                        )}
+                        {showChanges && (
+                            <button
+                                type="button"
+                                className={cn('hover:text-foreground', buildStateError && 'text-destructive')}
+                                onClick={() => setShowChanges(false)}
+                                title="Click to leave the changes view"
+                            >
+                                {buildStateError ??
+                                    (buildState?.builtDraft
+                                        ? `Since last build${buildState.lastRun ? ` (${new Date(buildState.lastRun).toLocaleString()})` : ''}: ${changeCounts.added} added · ${changeCounts.modified} modified · ${changeCounts.removed} removed`
+                                        : buildState?.lastRun
+                                          ? `No draft snapshot from the last build (${new Date(buildState.lastRun).toLocaleString()}): build again to compare changes`
+                                          : 'Not built yet: every model is new')}
+                            </button>
+                        )}
+                        {!parseError && liveDiagnostics.length > 0 && (
+                            <button
+                                type="button"
+                                onClick={() => revealInDraft(liveDiagnostics[0].from)}
+                                title={`${liveDiagnostics
+                                    .slice(0, 10)
+                                    .map((d) => d.message)
+                                    .join('\n')}\n\nChecked as you type; Validate runs the server check that Build uses.`}
+                            >
+                                <Badge
+                                    variant={liveErrorCount > 0 ? 'destructive' : 'secondary'}
+                                    className={cn('h-5 text-[10px]', liveErrorCount === 0 && 'text-amber-600 dark:text-amber-400')}
+                                >
+                                    {liveErrorCount > 0
+                                        ? `${liveErrorCount} error${liveErrorCount !== 1 ? 's' : ''}`
+                                        : `${liveDiagnostics.length} warning${liveDiagnostics.length !== 1 ? 's' : ''}`}
+                                </Badge>
+                            </button>
+                        )}
                         {validateResult !== null && (
                             <span
                                 className={
@@ -1292,6 +1956,61 @@ export default function ArchitectStudio({
                             {schemaSummary.relationEntries.length > 5 && (
                                 <span>+{schemaSummary.relationEntries.length - 5} more</span>
                             )}
+                            <button
+                                type="button"
+                                onClick={() => setPathFinder((v) => (v ? null : { from: '', to: '' }))}
+                                className={cn('rounded px-1.5 py-0.5 hover:bg-muted/70', pathFinder ? 'ring-1 ring-primary bg-primary/10' : 'bg-muted/50')}
+                            >
+                                Find path
+                            </button>
+                            {activeView && (
+                                <span className="inline-flex items-center gap-1 rounded bg-primary/10 px-1.5 py-0.5 text-foreground ring-1 ring-primary">
+                                    View: {activeView.name}
+                                    <button
+                                        type="button"
+                                        onClick={() => showDiagramView(null)}
+                                        className="text-muted-foreground hover:text-foreground"
+                                        aria-label="Show all models"
+                                        title="Show all models"
+                                    >
+                                        ×
+                                    </button>
+                                </span>
+                            )}
+                        </div>
+                    )}
+                    {pathFinder && parsedDraft && (
+                        <div className="mt-1 flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+                            {(['from', 'to'] as const).map((end) => (
+                                <select
+                                    key={end}
+                                    className="h-6 rounded-md border border-input bg-background px-1 text-xs"
+                                    value={pathFinder[end]}
+                                    onChange={(e) => setPathFinder({ ...pathFinder, [end]: e.target.value })}
+                                    aria-label={end === 'from' ? 'Path start model' : 'Path end model'}
+                                >
+                                    <option value="">{end === 'from' ? 'From model…' : 'To model…'}</option>
+                                    {modelNames.map((name) => (
+                                        <option key={name} value={name}>
+                                            {name}
+                                        </option>
+                                    ))}
+                                </select>
+                            ))}
+                            {pathFinder.from && pathFinder.to && (
+                                relationPath ? (
+                                    <span className="font-mono text-foreground" title={relationPath.map((step) => `${step.from}::${step.method}() — ${step.relType} ${step.to}`).join('\n')}>
+                                        {relationPath.length > 0 ? formatRelationPath(pathFinder.from, relationPath) : 'Same model'}
+                                    </span>
+                                ) : (
+                                    <span>
+                                        No relationship chain from {pathFinder.from} to {pathFinder.to}; relations are followed in the direction they are declared.
+                                    </span>
+                                )
+                            )}
+                            <button type="button" className="ml-auto hover:text-foreground" onClick={() => setPathFinder(null)}>
+                                Close
+                            </button>
                         </div>
                     )}
                 </div>
@@ -1324,24 +2043,79 @@ export default function ArchitectStudio({
                                                 <Badge variant="outline" className="text-[10px] h-4">{modelNames.length}</Badge>
                                             </div>
                                             <ul className="space-y-0.5">
-                                                {filteredModelNames.map((name) => (
-                                                    <li key={name}>
-                                                        <button
-                                                            type="button"
-                                                            className={cn(
-                                                                "w-full rounded-lg px-2 py-1.5 text-left text-sm hover:bg-primary/10 transition-colors group",
-                                                                focusNodeId === name && "bg-primary/10 text-primary"
-                                                            )}
-                                                            onClick={() => {
-                                                                setFocusNodeId(name);
-                                                                fetchPreview('model', name);
-                                                            }}
-                                                        >
-                                                            <span className="block font-medium truncate">{name}</span>
-                                                            <span className="block text-[10px] text-muted-foreground group-hover:text-primary/70 transition-colors">table: {modelToTableName(name)}</span>
-                                                        </button>
-                                                    </li>
-                                                ))}
+                                                {groupedModelNames.flatMap(({ group, names }) => [
+                                                    ...(modelGroupNames.length > 0
+                                                        ? [
+                                                              <li key={`group:${group ?? ''}`} className="px-2 pt-2">
+                                                                  {group === null ? (
+                                                                      <span className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground">
+                                                                          Ungrouped
+                                                                      </span>
+                                                                  ) : (
+                                                                      <button
+                                                                          type="button"
+                                                                          className="flex w-full items-center gap-1 text-[10px] font-medium uppercase tracking-wide text-muted-foreground hover:text-foreground"
+                                                                          onClick={() => toggleGroupCollapsed(group)}
+                                                                          title={collapsedGroups.includes(group) ? 'Expand group in the diagram' : 'Collapse group in the diagram'}
+                                                                      >
+                                                                          {collapsedGroups.includes(group) ? (
+                                                                              <ChevronRight className="size-3" />
+                                                                          ) : (
+                                                                              <ChevronDown className="size-3" />
+                                                                          )}
+                                                                          <span className="truncate">{group}</span>
+                                                                          <span className="ml-auto">{names.length}</span>
+                                                                      </button>
+                                                                  )}
+                                                              </li>,
+                                                          ]
+                                                        : []),
+                                                    ...names.map((name) => (
+                                                        <li key={name}>
+                                                            <button
+                                                                type="button"
+                                                                className={cn(
+                                                                    "w-full rounded-lg px-2 py-1.5 text-left text-sm hover:bg-primary/10 transition-colors group",
+                                                                    focusNodeId === name && "bg-primary/10 text-primary"
+                                                                )}
+                                                                onClick={() => {
+                                                                    setFocusNodeId(name);
+                                                                    fetchPreview('model', name);
+                                                                }}
+                                                            >
+                                                                <span className="flex items-center gap-1">
+                                                                    <span className="block font-medium truncate">{name}</span>
+                                                                    {draftDiff?.models[name] && (
+                                                                        <span
+                                                                            className={cn('ml-auto text-[10px]', CHANGE_TEXT_CLASS[draftDiff.models[name].kind])}
+                                                                            title={draftDiff.models[name].notes.join('\n')}
+                                                                        >
+                                                                            {draftDiff.models[name].kind}
+                                                                        </span>
+                                                                    )}
+                                                                </span>
+                                                                <span className="block text-[10px] text-muted-foreground group-hover:text-primary/70 transition-colors">table: {modelToTableName(name)}</span>
+                                                            </button>
+                                                        </li>
+                                                    )),
+                                                ])}
+                                                {Object.entries(draftDiff?.models ?? {})
+                                                    .filter(([, change]) => change.kind === 'removed')
+                                                    .map(([name, change]) => (
+                                                        <li key={`removed:${name}`}>
+                                                            <button
+                                                                type="button"
+                                                                className="w-full rounded-lg px-2 py-1.5 text-left text-sm hover:bg-primary/10 transition-colors"
+                                                                onClick={() => setFocusNodeId(name)}
+                                                                title={change.notes.join('\n')}
+                                                            >
+                                                                <span className="flex items-center gap-1">
+                                                                    <span className="block font-medium truncate line-through opacity-70">{name}</span>
+                                                                    <span className={cn('ml-auto text-[10px]', CHANGE_TEXT_CLASS.removed)}>removed</span>
+                                                                </span>
+                                                            </button>
+                                                        </li>
+                                                    ))}
                                                 {modelNames.length === 0 && (
                                                     <li className="px-2 py-4 text-center border border-dashed border-sidebar-border rounded-lg">
                                                         <p className="text-xs text-muted-foreground">No models yet</p>
@@ -1529,8 +2303,26 @@ export default function ArchitectStudio({
                                             focusNodeId={focusNodeId}
                                             onFocusDone={() => setFocusNodeId(null)}
                                             highlightEdgeId={selectedRelationId}
+                                            highlightEdgeIds={relationPathEdgeIds}
                                             showMinimap={showMinimap}
                                             fitViewRef={fitViewRef}
+                                            viewportRef={viewportRef}
+                                            visibleModels={visibleModels}
+                                            layoutDirection={layoutDirection}
+                                            relayoutRef={relayoutRef}
+                                            exportRef={exportRef}
+                                            positions={nodePositions}
+                                            onPositionsChange={setNodePositions}
+                                            onConnectModels={parseError || draftDiff ? undefined : handleConnectModels}
+                                            columnEdits={parseError || draftDiff ? undefined : columnEdits}
+                                            collapsedGroups={collapsedGroups}
+                                            onToggleGroup={toggleGroupCollapsed}
+                                            externalModels={existing_models}
+                                            onBringIntoDraft={parseError || draftDiff ? undefined : bringIntoDraft}
+                                            modelRefactors={parseError || draftDiff ? undefined : modelRefactors}
+                                            onSelectionChange={handleSelectionChange}
+                                            diff={draftDiff}
+                                            findings={relationFindings}
                                         />
                                         {!parsedDraft && (
                                             <p className="mt-2 text-sm text-destructive">
@@ -1541,8 +2333,8 @@ export default function ArchitectStudio({
                                             Object.keys(parsedDraft.models ?? {}).length > 0 &&
                                             !hasRelations && (
                                                 <p className="mt-2 text-muted-foreground text-sm">
-                                                    No relations yet. Add relationships in the draft
-                                                    YAML (e.g. relationships.belongsTo, hasMany).
+                                                    No relations yet. Drag from one model card to another,
+                                                    or add relationships in the draft YAML (e.g. relationships.belongsTo, hasMany).
                                                 </p>
                                             )}
                                     </>
@@ -1579,11 +2371,14 @@ export default function ArchitectStudio({
                         {showYamlSplit && (
                             <div className="flex min-h-0 flex-col rounded-lg border border-sidebar-border bg-card p-4">
                                 <p className="mb-2 font-medium">Draft YAML</p>
-                                <textarea
-                                    className="min-h-[300px] flex-1 font-mono text-sm rounded-md border border-input bg-background p-3 ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                                <YamlEditor
+                                    className="min-h-[300px] flex-1"
                                     value={draftYaml}
-                                    onChange={(e) => setDraftYaml(e.target.value)}
-                                    spellCheck={false}
+                                    onChange={setDraftYaml}
+                                    dark={isDark}
+                                    completion={draftCompletion}
+                                    diagnostics={editorDiagnostics}
+                                    editorRef={yamlEditorRef}
                                 />
                             </div>
                         )}
@@ -1630,7 +2425,7 @@ export default function ArchitectStudio({
                             <Tabs
                                 value={activeResultTab}
                                 onValueChange={(v) =>
-                                    setActiveResultTab(v as 'validate' | 'plan' | 'build')
+                                    setActiveResultTab(v as 'validate' | 'relations' | 'plan' | 'build')
                                 }
                                 className="w-full"
                             >
@@ -1641,6 +2436,17 @@ export default function ArchitectStudio({
                                     >
                                         Check Schema
                                     </TabsTrigger>
+                                    <TabsTrigger
+                                        value="relations"
+                                        className="gap-1.5 rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:shadow-none"
+                                    >
+                                        Relationships
+                                        {relationFindings.length > 0 && (
+                                            <Badge variant="outline" className="h-4 border-amber-500/50 text-[10px] text-amber-600 dark:text-amber-400">
+                                                {relationFindings.length}
+                                            </Badge>
+                                        )}
+                                    </TabsTrigger>
                                     <TabsTrigger
                                         value="plan"
                                         className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:shadow-none"
@@ -1665,11 +2471,28 @@ export default function ArchitectStudio({
                                                     ? 'Draft is valid.'
                                                     : `${validateResult.errors.length} issue${validateResult.errors.length !== 1 ? 's' : ''} found.`}
                                             </p>
-                                            {validateResult.errors.length > 0 && (
+                                            {validateResult.diagnostics.length > 0 && (
                                                 <ul className="list-inside list-disc text-destructive">
-                                                    {validateResult.errors.map((e, i) => (
-                                                        <li key={i}>{e}</li>
-                                                    ))}
+                                                    {validateResult.diagnostics.map((d, i) => {
+                                                        const at = validationLocations[i];
+                                                        return (
+                                                            <li key={i}>
+                                                                {at ? (
+                                                                    <button
+                                                                        type="button"
+                                                                        className="text-left hover:underline"
+                                                                        onClick={() => revealInDraft(at.from)}
+                                                                        title="Show in the YAML editor"
+                                                                    >
+                                                                        {d.message}
+                                                                        {d.path && <span className="ml-1 font-mono text-xs text-muted-foreground">{d.path}</span>}
+                                                                    </button>
+                                                                ) : (
+                                                                    d.message
+                                                                )}
+                                                            </li>
+                                                        );
+                                                    })}
                                                 </ul>
                                             )}
                                         </div>
@@ -1679,6 +2502,38 @@ export default function ArchitectStudio({
                                         </p>
                                     )}
                                 </TabsContent>
+                                <TabsContent value="relations" className="max-h-48 overflow-auto px-4 py-2 text-sm">
+                                    <p className="mb-2 text-muted-foreground">
+                                        Relationships checked as you type: missing inverses, foreign key columns and belongsTo.
+                                    </p>
+                                    {relationFindings.length === 0 ? (
+                                        <p className="font-medium">Relationships are consistent.</p>
+                                    ) : (
+                                        <ul className="space-y-1.5">
+                                            {relationFindings.map((finding) => (
+                                                <li key={finding.id} className="flex items-start gap-2">
+                                                    <AlertTriangle className="mt-0.5 size-3.5 shrink-0 text-amber-600 dark:text-amber-400" />
+                                                    <button
+                                                        type="button"
+                                                        className="min-w-0 flex-1 text-left hover:underline"
+                                                        onClick={() => setFocusNodeId(finding.model)}
+                                                        title={`Show ${finding.model} in the diagram`}
+                                                    >
+                                                        {finding.message}
+                                                    </button>
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="h-6 shrink-0 px-2 text-xs"
+                                                        onClick={() => applyDraftEdit(finding.fix.apply)}
+                                                    >
+                                                        {finding.fix.label}
+                                                    </Button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </TabsContent>
                                 <TabsContent value="plan" className="max-h-48 overflow-auto px-4 py-2 text-sm">
                                     <p className="mb-2 text-muted-foreground">
                                         See what will be generated: migrations, models, actions, pages.
@@ -2026,10 +2881,61 @@ export default function ArchitectStudio({
                 </DialogContent>
             </Dialog>
 
+            <Dialog open={schemaImportOpen} onOpenChange={setSchemaImportOpen}>
+                <DialogContent className="sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>Import DBML / Mermaid</DialogTitle>
+                        <DialogDescription>
+                            Paste or upload a dbdiagram.io (DBML) schema or a Mermaid erDiagram. Tables become models, foreign
+                            keys become relationships, and join tables become belongsToMany.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="flex items-center gap-2">
+                        <select
+                            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                            value={schemaImportFormat}
+                            onChange={(e) => setSchemaImportFormat(e.target.value as DraftImportFormat | 'auto')}
+                            aria-label="Format"
+                        >
+                            <option value="auto">Detect format</option>
+                            {(Object.keys(DRAFT_IMPORT_FORMATS) as DraftImportFormat[]).map((format) => (
+                                <option key={format} value={format}>
+                                    {DRAFT_IMPORT_FORMATS[format]}
+                                </option>
+                            ))}
+                        </select>
+                        <Input
+                            type="file"
+                            accept=".dbml,.mmd,.mermaid,.md,.txt"
+                            className="h-8 text-sm"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) file.text().then(setSchemaImportText);
+                            }}
+                        />
+                    </div>
+                    <textarea
+                        className="min-h-[240px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                        placeholder={'Table posts {\n  id bigint [pk]\n  title varchar(400)\n  author_id bigint [ref: > users.id]\n}'}
+                        value={schemaImportText}
+                        onChange={(e) => setSchemaImportText(e.target.value)}
+                    />
+                    {schemaImportError && <p className="text-destructive text-sm">{schemaImportError}</p>}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setSchemaImportOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={runSchemaImport} disabled={!schemaImportText.trim()}>
+                            Continue
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
             <Dialog open={importConfirmOpen} onOpenChange={setImportConfirmOpen}>
                 <DialogContent>
                     <DialogHeader>
-                        <DialogTitle>Import from codebase</DialogTitle>
+                        <DialogTitle>Import from {importSource}</DialogTitle>
                         <DialogDescription>
                             Use the imported draft to replace the current draft or merge with it?
                         </DialogDescription>
@@ -2237,6 +3143,391 @@ export default function ArchitectStudio({
                 </DialogContent>
             </Dialog>
 
+            <Dialog open={pendingConnection !== null} onOpenChange={(open) => !open && setPendingConnection(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>
+                            Connect {pendingConnection?.source} → {pendingConnection?.target}
+                        </DialogTitle>
+                        <DialogDescription>
+                            Choose how {pendingConnection?.source} relates to {pendingConnection?.target}. The entry is added to{' '}
+                            <code className="bg-muted px-1 rounded">{pendingConnection?.source}.relationships</code> in the draft YAML.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {pendingConnection && (
+                        <div className="flex flex-col gap-4 py-2">
+                            <div className="space-y-2">
+                                <Label>Type</Label>
+                                <select
+                                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                                    value={pendingConnection.type}
+                                    onChange={(e) => {
+                                        const type = e.target.value as RelationType;
+                                        const inverse = INVERSE_RELATION[type];
+                                        setPendingConnection(
+                                            (c) => c && { ...c, type, addInverse: inverse !== undefined, inverseType: inverse ?? c.inverseType },
+                                        );
+                                    }}
+                                >
+                                    {RELATION_TYPES.map((type) => (
+                                        <option key={type} value={type}>
+                                            {type} ({RELATION_LABELS[type]})
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="connect-alias">Alias (optional)</Label>
+                                <Input
+                                    id="connect-alias"
+                                    value={pendingConnection.alias}
+                                    onChange={(e) => setPendingConnection((c) => c && { ...c, alias: e.target.value })}
+                                    placeholder="e.g. author"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Writes{' '}
+                                    <code className="bg-muted px-1 rounded">
+                                        {pendingConnection.type}: {relationEntry(pendingConnection.target, pendingConnection.alias)}
+                                    </code>
+                                    {pendingConnection.type === 'belongsTo' && (
+                                        <>
+                                            {' '}· foreign key{' '}
+                                            <code className="bg-muted px-1 rounded">
+                                                {belongsToFkColumn(relationEntry(pendingConnection.target, pendingConnection.alias))}
+                                            </code>
+                                        </>
+                                    )}
+                                </p>
+                            </div>
+                            {INVERSE_RELATION[pendingConnection.type] ? (
+                                <div className="space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="checkbox"
+                                            id="connect-inverse"
+                                            checked={pendingConnection.addInverse}
+                                            onChange={(e) => setPendingConnection((c) => c && { ...c, addInverse: e.target.checked })}
+                                        />
+                                        <Label htmlFor="connect-inverse">
+                                            Also add the inverse on {pendingConnection.target}
+                                        </Label>
+                                    </div>
+                                    {pendingConnection.addInverse && (
+                                        <select
+                                            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                                            value={pendingConnection.inverseType}
+                                            onChange={(e) =>
+                                                setPendingConnection((c) => c && { ...c, inverseType: e.target.value as RelationType })
+                                            }
+                                        >
+                                            {RELATION_TYPES.filter((type) => INVERSE_RELATION[type]).map((type) => (
+                                                <option key={type} value={type}>
+                                                    {pendingConnection.target} {RELATION_LABELS[type]} {pendingConnection.source}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    )}
+                                </div>
+                            ) : (
+                                <p className="text-xs text-muted-foreground">
+                                    Morph relations have no automatic inverse: declare the other side by hand with its morph name.
+                                </p>
+                            )}
+                            {connectionError && <p className="text-sm text-destructive">{connectionError}</p>}
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setPendingConnection(null)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={applyConnection}>Add relationship</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={viewDraft !== null} onOpenChange={(open) => !open && setViewDraft(null)}>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Save diagram view</DialogTitle>
+                        <DialogDescription>
+                            Views are stored next to the draft, so everyone working on it can switch to them from the command palette.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {viewDraft && (
+                        <div className="space-y-3 text-sm">
+                            <div className="space-y-2">
+                                <Label htmlFor="view-name">Name</Label>
+                                <Input
+                                    id="view-name"
+                                    autoFocus
+                                    placeholder="Billing only"
+                                    value={viewDraft.name}
+                                    onChange={(e) => setViewDraft({ ...viewDraft, name: e.target.value })}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') saveDiagramView();
+                                    }}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="view-scope">Models</Label>
+                                <select
+                                    id="view-scope"
+                                    className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+                                    value={viewDraft.scope}
+                                    onChange={(e) => setViewDraft({ ...viewDraft, scope: e.target.value })}
+                                >
+                                    <option value="all">All models</option>
+                                    {(selectedModels.length > 0 || activeView?.models) && (
+                                        <option value="selection">
+                                            Selected models ({selectedModels.length > 0 ? selectedModels.length : activeView?.models?.length})
+                                        </option>
+                                    )}
+                                    {modelGroupNames.map((group) => (
+                                        <option key={group} value={`group:${group}`}>
+                                            Group: {group}
+                                        </option>
+                                    ))}
+                                    {modelNames.map((name) => (
+                                        <option key={name} value={`touching:${name}`}>
+                                            Everything touching {name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    id="view-keep-viewport"
+                                    checked={viewDraft.keepViewport}
+                                    onChange={(e) => setViewDraft({ ...viewDraft, keepViewport: e.target.checked })}
+                                />
+                                <Label htmlFor="view-keep-viewport">Remember zoom and position (otherwise the view fits its models)</Label>
+                            </div>
+                            {diagramViews.length > 0 && (
+                                <ul className="max-h-32 space-y-0.5 overflow-auto rounded-md border border-sidebar-border bg-muted/30 p-2 text-xs">
+                                    {diagramViews.map((view) => (
+                                        <li key={view.name} className="flex items-center gap-2">
+                                            <span className="truncate">{view.name}</span>
+                                            {view.name === viewDraft.name.trim() && <span className="text-muted-foreground">(replaced)</span>}
+                                            <button
+                                                type="button"
+                                                className="ml-auto text-muted-foreground hover:text-destructive"
+                                                onClick={() => {
+                                                    storeDiagramViews(diagramViews.filter((v) => v !== view));
+                                                    if (activeView?.name === view.name) showDiagramView(null);
+                                                }}
+                                            >
+                                                Delete
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setViewDraft(null)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={saveDiagramView} disabled={!viewDraft?.name.trim()}>
+                            Save view
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={modelPaste !== null} onOpenChange={(open) => !open && setModelPaste(null)}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Paste models</DialogTitle>
+                        <DialogDescription>
+                            Merge the copied models into this draft. Models whose name is taken get a numbered name.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {modelPastePreview?.error ? (
+                        <p className="text-destructive text-sm">{modelPastePreview.error}</p>
+                    ) : (
+                        modelPastePreview && (
+                            <div className="space-y-3 text-sm">
+                                <ul className="max-h-40 space-y-0.5 overflow-auto rounded-md border border-sidebar-border bg-muted/30 p-2 font-mono text-xs">
+                                    {modelPastePreview.models.map((name) => {
+                                        const original = Object.keys(modelPastePreview.renamed).find((m) => modelPastePreview.renamed[m] === name);
+                                        return (
+                                            <li key={name}>
+                                                {original ? (
+                                                    <>
+                                                        {original} → <span className="text-primary">{name}</span>
+                                                        <span className="text-muted-foreground"> (name taken)</span>
+                                                    </>
+                                                ) : (
+                                                    name
+                                                )}
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                                {modelPastePreview.outside.length > 0 && (
+                                    <div className="space-y-1">
+                                        <p className="text-muted-foreground">
+                                            The copied models also reference {modelPastePreview.outside.join(', ')}.
+                                        </p>
+                                        <div className="flex items-center gap-2">
+                                            <input
+                                                type="checkbox"
+                                                id="paste-keep-outside"
+                                                checked={modelPaste?.keepOutsideRelations ?? true}
+                                                onChange={(e) =>
+                                                    setModelPaste((p) => p && { ...p, keepOutsideRelations: e.target.checked })
+                                                }
+                                            />
+                                            <Label htmlFor="paste-keep-outside">
+                                                Keep those relationships and foreign keys (otherwise they are stripped)
+                                            </Label>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    )}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setModelPaste(null)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={applyModelPaste} disabled={!!modelPastePreview?.error}>
+                            Paste {modelPastePreview?.models.length ?? 0} model{modelPastePreview?.models.length !== 1 ? 's' : ''}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={modelRefactor !== null} onOpenChange={(open) => !open && setModelRefactor(null)}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>
+                            {modelRefactor?.kind === 'rename' ? `Rename ${modelRefactor.model}` : `Delete ${modelRefactor?.model}`}
+                        </DialogTitle>
+                        <DialogDescription>
+                            {modelRefactor?.kind === 'rename'
+                                ? 'Renames the model and updates every reference to it in the draft.'
+                                : 'Removes the model from the draft. Choose which references to it go too; the rest are left for you to fix.'}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {modelRefactor?.kind === 'rename' ? (
+                        <div className="space-y-2">
+                            <Label htmlFor="rename-model">New name</Label>
+                            <Input
+                                id="rename-model"
+                                autoFocus
+                                value={renameModelTo}
+                                onChange={(e) => setRenameModelTo(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter' && !modelRefactorPreview.error) applyModelRefactor();
+                                }}
+                            />
+                        </div>
+                    ) : (
+                        <div className="space-y-1">
+                            {(
+                                [
+                                    ['relations', 'Relationships and pivot settings pointing at it'],
+                                    ['foreignKeys', 'id:Model foreign key columns on other models'],
+                                    ['actionsAndPages', 'Actions using it and its page'],
+                                ] as const
+                            ).map(([option, label]) => (
+                                <div key={option} className="flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        id={`delete-model-${option}`}
+                                        checked={deleteModelOptions[option]}
+                                        onChange={(e) => setDeleteModelOptions((o) => ({ ...o, [option]: e.target.checked }))}
+                                    />
+                                    <Label htmlFor={`delete-model-${option}`}>{label}</Label>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {modelRefactorPreview.error ? (
+                        <p className="text-destructive text-sm">{modelRefactorPreview.error}</p>
+                    ) : (
+                        <div className="space-y-1">
+                            <p className="text-sm font-medium">
+                                {modelRefactorPreview.changes.length} change{modelRefactorPreview.changes.length !== 1 ? 's' : ''}
+                            </p>
+                            <ul className="max-h-60 space-y-0.5 overflow-auto rounded-md border border-sidebar-border bg-muted/30 p-2 font-mono text-xs">
+                                {modelRefactorPreview.changes.map((change, i) => (
+                                    <li key={i}>
+                                        <span className="text-muted-foreground">{change.path}:</span>{' '}
+                                        {change.after === null ? (
+                                            <span className="text-destructive line-through">{change.before}</span>
+                                        ) : (
+                                            <>
+                                                {change.before} → <span className="text-primary">{change.after}</span>
+                                            </>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setModelRefactor(null)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            variant={modelRefactor?.kind === 'delete' ? 'destructive' : 'default'}
+                            onClick={applyModelRefactor}
+                            disabled={modelRefactorPreview.error !== null || modelRefactorPreview.changes.length === 0}
+                        >
+                            {modelRefactor?.kind === 'rename' ? 'Rename' : 'Delete'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={textExportFormat !== null} onOpenChange={(open) => !open && setTextExportFormat(null)}>
+                <DialogContent className="sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>Export draft</DialogTitle>
+                        <DialogDescription>
+                            Tables, columns and relationships as text for wikis, dbdiagram.io or PlantUML.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <Tabs
+                        value={textExportFormat ?? 'mermaid'}
+                        onValueChange={(v) => {
+                            setTextExportFormat(v as DraftTextFormat);
+                            setTextExportCopied(false);
+                        }}
+                    >
+                        <TabsList>
+                            {(Object.keys(DRAFT_TEXT_FORMATS) as DraftTextFormat[]).map((format) => (
+                                <TabsTrigger key={format} value={format}>
+                                    {DRAFT_TEXT_FORMATS[format].label}
+                                </TabsTrigger>
+                            ))}
+                        </TabsList>
+                    </Tabs>
+                    <pre className="max-h-80 overflow-auto rounded-md border border-sidebar-border bg-muted/40 p-3 font-mono text-xs">
+                        {textExport}
+                    </pre>
+                    {copyError && <p className="text-destructive text-sm">{copyError}</p>}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={downloadTextExport} disabled={!textExport}>
+                            Download .{textExportFormat ? DRAFT_TEXT_FORMATS[textExportFormat].extension : ''}
+                        </Button>
+                        <Button onClick={copyTextExport} disabled={!textExport}>
+                            {textExportCopied ? (
+                                <>
+                                    <Check className="size-4" /> Copied
+                                </>
+                            ) : (
+                                'Copy to clipboard'
+                            )}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
             <CommandDialog open={paletteOpen} onOpenChange={setPaletteOpen}>
                 <CommandInput placeholder="Search actions..." />
                 <CommandList>
@@ -2311,6 +3602,28 @@ export default function ArchitectStudio({
                         >
                             Import from codebase
                         </StudioCommandItem>
+                        <StudioCommandItem
+                            onSelect={() => {
+                                setSchemaImportOpen(true);
+                                setPaletteOpen(false);
+                            }}
+                        >
+                            Import DBML / Mermaid
+                        </StudioCommandItem>
+                    </CommandGroup>
+                    <CommandGroup heading="Export">
+                        {(Object.keys(DRAFT_TEXT_FORMATS) as DraftTextFormat[]).map((format) => (
+                            <StudioCommandItem
+                                key={format}
+                                onSelect={() => {
+                                    setTextExportFormat(format);
+                                    setPaletteOpen(false);
+                                }}
+                                disabled={!parsedDraft}
+                            >
+                                Export as {DRAFT_TEXT_FORMATS[format].label}
+                            </StudioCommandItem>
+                        ))}
                     </CommandGroup>
                     <CommandGroup heading="View">
                         <StudioCommandItem
@@ -2329,6 +3642,120 @@ export default function ArchitectStudio({
                         >
                             {showMinimap ? 'Hide minimap' : 'Show minimap'}
                         </StudioCommandItem>
+                        <StudioCommandItem
+                            onSelect={() => {
+                                relayoutRef.current?.();
+                                setPaletteOpen(false);
+                            }}
+                            disabled={!parsedDraft}
+                        >
+                            Re-layout diagram
+                        </StudioCommandItem>
+                        <StudioCommandItem
+                            onSelect={() => {
+                                const next = layoutDirection === 'TB' ? 'LR' : 'TB';
+                                setLayoutDirection(next);
+                                relayoutRef.current?.(next);
+                                setPaletteOpen(false);
+                            }}
+                        >
+                            Layout: {LAYOUT_DIRECTION_LABELS[layoutDirection === 'TB' ? 'LR' : 'TB']}
+                        </StudioCommandItem>
+                        <StudioCommandItem
+                            onSelect={() => {
+                                setPathFinder({ from: '', to: '' });
+                                setPaletteOpen(false);
+                            }}
+                            disabled={!parsedDraft}
+                        >
+                            Find relationship path…
+                        </StudioCommandItem>
+                        {diagramViews.map((view) => (
+                            <StudioCommandItem
+                                key={`view:${view.name}`}
+                                onSelect={() => {
+                                    showDiagramView(view);
+                                    setPaletteOpen(false);
+                                }}
+                                disabled={!parsedDraft}
+                            >
+                                View: {view.name}
+                                {activeView?.name === view.name && <Check className="ml-auto size-3.5" />}
+                            </StudioCommandItem>
+                        ))}
+                        {activeView && (
+                            <StudioCommandItem
+                                onSelect={() => {
+                                    showDiagramView(null);
+                                    setPaletteOpen(false);
+                                }}
+                            >
+                                Show all models
+                            </StudioCommandItem>
+                        )}
+                        <StudioCommandItem
+                            onSelect={() => {
+                                openSaveViewDialog();
+                                setPaletteOpen(false);
+                            }}
+                            disabled={!parsedDraft}
+                        >
+                            Save current view…
+                        </StudioCommandItem>
+                        <StudioCommandItem
+                            onSelect={() => {
+                                navigator.clipboard
+                                    .writeText(copyModels(draftYaml, selectedModels))
+                                    .then(
+                                        () => setCopyError(null),
+                                        () => setCopyError('The browser did not allow writing the selected models to the clipboard.'),
+                                    );
+                                setPaletteOpen(false);
+                            }}
+                            disabled={selectedModels.length === 0 || !!parseError}
+                        >
+                            Copy selected models as YAML{selectedModels.length > 0 && ` (${selectedModels.length})`}
+                        </StudioCommandItem>
+                        <StudioCommandItem
+                            onSelect={() => {
+                                setShowChanges((v) => !v);
+                                setPaletteOpen(false);
+                            }}
+                            disabled={!parsedDraft}
+                        >
+                            {showChanges ? 'Hide changes since last build' : 'Show changes since last build'}
+                        </StudioCommandItem>
+                        {modelGroupNames.length > 0 && (
+                            <StudioCommandItem
+                                onSelect={() => {
+                                    setCollapsedGroups((prev) => (prev.length > 0 ? [] : modelGroupNames));
+                                    setPaletteOpen(false);
+                                }}
+                            >
+                                {collapsedGroups.length > 0 ? 'Expand all groups' : 'Collapse all groups'}
+                            </StudioCommandItem>
+                        )}
+                        {(
+                            [
+                                ['svg', 'graph', 'Export diagram as SVG'],
+                                ['png', 'graph', 'Export diagram as PNG'],
+                                ['png', 'viewport', 'Export visible area as PNG'],
+                            ] as const
+                        ).map(([format, scope, label]) => (
+                            <StudioCommandItem
+                                key={label}
+                                onSelect={() => {
+                                    setPaletteOpen(false);
+                                    setExportError(null);
+                                    exportRef.current?.(format, scope).catch((e: unknown) => {
+                                        setExportError(e instanceof Error ? e.message : 'Could not render the diagram.');
+                                    });
+                                }}
+                                disabled={!parsedDraft}
+                            >
+                                {label}
+                            </StudioCommandItem>
+                        ))}
                         <StudioCommandItem
                             onSelect={() => {
                                 setModelListPanelOpen((v) => !v);
@@ -0,0 +1,72 @@
+import { createContext, useContext } from 'react';
+import { Handle, Position, type NodeProps } from 'reactflow';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { ModelGroupNodeData } from './modelGroups';
+import { NODE_SOURCE_HANDLE, NODE_TARGET_HANDLE } from './ModelNode';
+import { Badge } from './ui/badge';
+
+/** Collapses or expands a domain group by name; provided by SchemaDiagram. */
+export const ModelGroupToggleContext = createContext<((group: string) => void) | null>(null);
+
+/** Models listed on a collapsed group's card before "+N more". */
+const SUMMARY_MODEL_COUNT = 5;
+
+export function ModelGroupNode({
+    data,
+    targetPosition = Position.Top,
+    sourcePosition = Position.Bottom,
+}: NodeProps<ModelGroupNodeData>) {
+    const toggle = useContext(ModelGroupToggleContext);
+    const Chevron = data.collapsed ? ChevronRight : ChevronDown;
+    const header = (
+        <div className="flex items-center gap-1 text-xs font-semibold">
+            <button
+                type="button"
+                className="nodrag rounded text-muted-foreground hover:text-foreground disabled:opacity-50"
+                onClick={() => toggle?.(data.label)}
+                disabled={!toggle}
+                title={data.collapsed ? 'Expand group' : 'Collapse group'}
+                aria-label={data.collapsed ? `Expand ${data.label}` : `Collapse ${data.label}`}
+            >
+                <Chevron className="size-3.5" />
+            </button>
+            <span className="truncate">{data.label}</span>
+            <Badge variant="secondary" className="ml-auto h-4 text-[10px]">
+                {data.models.length} {data.models.length === 1 ? 'model' : 'models'}
+            </Badge>
+        </div>
+    );
+
+    if (!data.collapsed) {
+        return (
+            <div className="h-full w-full rounded-xl border border-dashed border-primary/40 bg-primary/5 px-3 py-2">
+                {header}
+            </div>
+        );
+    }
+
+    const hidden = data.models.length - SUMMARY_MODEL_COUNT;
+    return (
+        <div
+            className="min-w-[200px] rounded-xl border-2 border-primary/40 bg-card px-3 py-2 shadow-md studio-card"
+            onDoubleClick={() => toggle?.(data.label)}
+        >
+            <Handle type="target" id={NODE_TARGET_HANDLE} position={targetPosition} isConnectable={false} className="opacity-0" />
+            <Handle type="source" id={NODE_SOURCE_HANDLE} position={sourcePosition} isConnectable={false} className="opacity-0" />
+            {header}
+            <ul className="mt-1 space-y-0.5 text-[10px] text-muted-foreground">
+                {data.models.slice(0, SUMMARY_MODEL_COUNT).map((model) => (
+                    <li key={model} className="truncate font-mono">
+                        {model}
+                    </li>
+                ))}
+                {hidden > 0 && <li className="italic">+{hidden} more</li>}
+            </ul>
+            {data.internalRelationCount > 0 && (
+                <p className="mt-1 text-[10px] text-muted-foreground">
+                    {data.internalRelationCount} {data.internalRelationCount === 1 ? 'relation' : 'relations'} inside
+                </p>
+            )}
+        </div>
+    );
+}
@@ -1,57 +1,587 @@
-import type { NodeProps } from 'reactflow';
+import { createContext, useContext, useRef, useState, type ReactNode } from 'react';
+import { Handle, Position, type NodeProps } from 'reactflow';
+import { AlertTriangle, Check, CircleDashed, Download, FingerprintPattern, Hash, KeyRound, Link2, MoreHorizontal, Pencil, Plus, Trash2, type LucideIcon } from 'lucide-react';
+import { COLUMN_MODIFIERS, COLUMN_TYPES } from '../constants';
+import { cn } from '../lib/utils';
+import { formatColumnDefinition, parseColumnDefinition, toggleColumnModifier } from './columnFormat';
+import type { ColumnChange, DraftChangeKind } from './draftDiff';
 import { Card, CardContent, CardHeader } from './ui/card';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
 import { Badge } from './ui/badge';
 import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
 
+/** Columns shown before the card collapses the rest into "+N more". */
+const COLLAPSED_COLUMN_COUNT = 8;
+
+/** Card-level handles, used by relations that are not tied to a column and for drag-to-connect. */
+export const NODE_SOURCE_HANDLE = 'model-out';
+export const NODE_TARGET_HANDLE = 'model-in';
+/** Target handle on the primary key row; foreign key edges end here. */
+export const PRIMARY_KEY_HANDLE = 'pk';
+
+/** Source handle on a foreign key column row. */
+export function columnHandleId(column: string): string {
+    return `col:${column}`;
+}
+
+export interface ModelColumn {
+    name: string;
+    /** Definition string as written in the draft, e.g. `string:255 unique`. */
+    definition: string;
+    /** Not written in the draft but created by the generator (the `id` key, belongsTo foreign keys). */
+    implicit?: boolean;
+    /** Model this foreign key column points at. */
+    references?: string;
+    /** morphTo name for polymorphic `{name}_type`/`{name}_id` columns. */
+    morph?: string;
+    /** Change since the last build, when the diagram shows changes. */
+    change?: ColumnChange;
+}
+
 export interface ModelNodeData {
     label: string;
     tableName?: string;
-    columns: string[];
+    columns: ModelColumn[];
     relationCount?: number;
+    /** Set on synthesized belongsToMany pivot tables; `label` is then the table name. */
+    pivot?: { models: [string, string] };
+    /** An app model the draft references but does not define; drawn dimmed and read-only. */
+    external?: boolean;
+    /** Change since the last build, when the diagram shows changes; `notes` feed the tooltip. */
+    change?: { kind: DraftChangeKind; notes: string[] };
+    /** Relationship lint messages about this model (see relationLint). */
+    warnings?: string[];
+}
+
+/** Column edits from the diagram; provided by SchemaDiagram when the draft is editable. */
+export interface ColumnEditActions {
+    addColumn: (model: string, column: string, definition: string) => void;
+    renameColumn: (model: string, column: string, newName: string) => void;
+    setColumnDefinition: (model: string, column: string, definition: string) => void;
+    removeColumn: (model: string, column: string) => void;
+}
+
+export const ColumnEditContext = createContext<ColumnEditActions | null>(null);
+
+/** Copies an external model (with its columns) into the draft; provided by SchemaDiagram. */
+export const BringIntoDraftContext = createContext<((model: string) => void) | null>(null);
+
+/** Model-wide refactorings offered from a card's menu; provided by SchemaDiagram when the draft is editable. */
+export interface ModelRefactorActions {
+    renameModel: (model: string) => void;
+    deleteModel: (model: string) => void;
+}
+
+export const ModelRefactorContext = createContext<ModelRefactorActions | null>(null);
+
+/** Text colors for changed models and columns in the sidebar and on model cards. */
+export const CHANGE_TEXT_CLASS: Record<DraftChangeKind, string> = {
+    added: 'text-green-600 dark:text-green-400',
+    modified: 'text-amber-600 dark:text-amber-400',
+    removed: 'text-red-600 dark:text-red-400',
+};
+
+const changeCardClass: Record<DraftChangeKind, string> = {
+    added: 'ring-2 ring-green-500',
+    modified: 'ring-2 ring-amber-500',
+    removed: 'ring-2 ring-red-500 opacity-70',
+};
+
+function columnChangeTitle(change: ColumnChange): string {
+    if (change.kind === 'added') return 'Added since the last build';
+    if (change.kind === 'removed') return `Removed since the last build (was ${change.before})`;
+    return `Changed since the last build: ${change.before} → ${change.after}`;
+}
+
+/** Modifiers ColumnIcons draws (`foreign` only as part of a foreign key icon). */
+const ICON_MODIFIERS = ['nullable', 'unique', 'index'];
+
+/** Foreign key target: from a relation, or the model in `id:Model`. */
+function columnTarget(column: ModelColumn): string | undefined {
+    const { type, param } = parseColumnDefinition(column.definition);
+    return column.references ?? (type === 'id' ? param : undefined);
+}
+
+/** Modifiers listed as text after the type: those without an icon. */
+function textModifiers(column: ModelColumn): string {
+    const hasForeignKeyIcon = columnTarget(column) !== undefined;
+    return parseColumnDefinition(column.definition)
+        .modifiers.filter((m) => !ICON_MODIFIERS.includes(m) && !(m === 'foreign' && hasForeignKeyIcon))
+        .join(' ');
+}
+
+/** `string:255` → `string(255)`; `id:User` → `foreignId` (the target shows on the FK icon). */
+function columnTypeLabel(definition: string): string {
+    const { type, param } = parseColumnDefinition(definition);
+    if (type === 'id' && param) return 'foreignId';
+    return param ? `${type}(${param})` : type;
+}
+
+/** Primary key, foreign key, unique, index and nullable markers of a column. */
+function ColumnIcons({ column }: { column: ModelColumn }) {
+    const { modifiers } = parseColumnDefinition(column.definition);
+    const target = columnTarget(column);
+    const icons: { Icon: LucideIcon; title: string; className?: string }[] = [];
+    if (column.name === 'id') icons.push({ Icon: KeyRound, title: 'Primary key', className: 'text-amber-500' });
+    if (target) icons.push({ Icon: Link2, title: `Foreign key to ${target}`, className: 'text-primary' });
+    if (column.morph) icons.push({ Icon: Link2, title: `Polymorphic key for ${column.morph}`, className: 'text-primary' });
+    if (modifiers.includes('unique')) icons.push({ Icon: FingerprintPattern, title: 'Unique', className: 'text-violet-500' });
+    if (modifiers.includes('index')) icons.push({ Icon: Hash, title: 'Indexed', className: 'text-sky-500' });
+    if (modifiers.includes('nullable')) icons.push({ Icon: CircleDashed, title: 'Nullable' });
+    return (
+        <span className="flex items-center gap-px">
+            {icons.map(({ Icon, title, className }) => (
+                <Icon key={title} className={cn('size-2.5 shrink-0', className)} aria-label={title} />
+            ))}
+        </span>
+    );
+}
+
+const columnHandleClass = '!size-1.5 !min-w-0 !min-h-0 !border-0 !bg-primary/70';
+
+/**
+ * Handles for a column row: a source on foreign keys, a target on the primary key. Rendered
+ * inside a `relative` row and pushed out to the card border past the content padding.
+ */
+function ColumnHandles({ columns }: { columns: ModelColumn[] }) {
+    return (
+        <>
+            {columns.map((col) =>
+                col.name === 'id' ? (
+                    <Handle
+                        key={col.name}
+                        type="target"
+                        id={PRIMARY_KEY_HANDLE}
+                        position={Position.Left}
+                        isConnectable={false}
+                        className={cn(columnHandleClass, '!-left-[27px]')}
+                    />
+                ) : col.references || (col.morph && col.name === `${col.morph}_id`) ? (
+                    <Handle
+                        key={col.name}
+                        type="source"
+                        id={columnHandleId(col.name)}
+                        position={Position.Right}
+                        isConnectable={false}
+                        className={cn(columnHandleClass, '!-right-[27px]')}
+                    />
+                ) : null,
+            )}
+        </>
+    );
+}
+
+const fieldClass =
+    'nodrag h-5 rounded border border-input bg-background px-1 font-mono text-[10px] outline-none focus-visible:border-ring';
+
+function ColumnEditor({
+    model,
+    column,
+    actions,
+    handles,
+    onRenamed,
+    onDone,
+}: {
+    model: string;
+    column: ModelColumn;
+    actions: ColumnEditActions;
+    handles: ReactNode;
+    onRenamed: (newName: string) => void;
+    onDone: () => void;
+}) {
+    const parsed = parseColumnDefinition(column.definition);
+    const [name, setName] = useState(column.name);
+    const [param, setParam] = useState(parsed.param ?? '');
+    const committedName = useRef(column.name);
+
+    const commitName = () => {
+        const next = name.trim();
+        if (next && next !== committedName.current) {
+            committedName.current = next;
+            actions.renameColumn(model, column.name, next);
+            onRenamed(next);
+        }
+    };
+    const commitParam = () => {
+        const next = param.trim();
+        if (next !== (parsed.param ?? '')) {
+            actions.setColumnDefinition(model, column.name, formatColumnDefinition({ ...parsed, param: next || undefined }));
+        }
+    };
+
+    return (
+        <li className="nodrag relative space-y-1 rounded border border-sidebar-border bg-muted/40 p-1">
+            {handles}
+            <div className="flex items-center gap-1">
+                <input
+                    className={cn(fieldClass, 'w-24')}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onBlur={commitName}
+                    onKeyDown={(e) => e.key === 'Enter' && commitName()}
+                    aria-label="Column name"
+                />
+                <select
+                    className={cn(fieldClass, 'w-20')}
+                    value={parsed.type}
+                    onChange={(e) =>
+                        actions.setColumnDefinition(model, column.name, formatColumnDefinition({ ...parsed, type: e.target.value }))
+                    }
+                    aria-label="Column type"
+                >
+                    {!(COLUMN_TYPES as readonly string[]).includes(parsed.type) && <option value={parsed.type}>{parsed.type}</option>}
+                    {COLUMN_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                            {type}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    className={cn(fieldClass, 'w-14')}
+                    value={param}
+                    placeholder={parsed.type === 'id' ? 'Model' : 'length'}
+                    onChange={(e) => setParam(e.target.value)}
+                    onBlur={commitParam}
+                    onKeyDown={(e) => e.key === 'Enter' && commitParam()}
+                    aria-label={parsed.type === 'id' ? 'Related model' : 'Length'}
+                />
+            </div>
+            <div className="flex items-center gap-1">
+                {COLUMN_MODIFIERS.map((modifier) => (
+                    <button
+                        key={modifier}
+                        type="button"
+                        className={cn(
+                            'nodrag rounded px-1 text-[9px]',
+                            parsed.modifiers.includes(modifier)
+                                ? 'bg-primary text-primary-foreground'
+                                : 'bg-background text-muted-foreground hover:text-foreground',
+                        )}
+                        onClick={() =>
+                            actions.setColumnDefinition(model, column.name, toggleColumnModifier(column.definition, modifier))
+                        }
+                    >
+                        {modifier}
+                    </button>
+                ))}
+                <button
+                    type="button"
+                    className="nodrag ml-auto text-muted-foreground hover:text-destructive"
+                    onClick={() => actions.removeColumn(model, column.name)}
+                    title="Delete column"
+                >
+                    <Trash2 className="size-3" />
+                </button>
+                <button
+                    type="button"
+                    className="nodrag text-muted-foreground hover:text-foreground"
+                    onClick={() => {
+                        commitParam();
+                        commitName();
+                        onDone();
+                    }}
+                    title="Done"
+                >
+                    <Check className="size-3" />
+                </button>
+            </div>
+        </li>
+    );
+}
+
+function NewColumnRow({ model, actions, onDone }: { model: string; actions: ColumnEditActions; onDone: () => void }) {
+    const [name, setName] = useState('');
+    const [type, setType] = useState<string>('string');
+    const submit = () => {
+        const column = name.trim();
+        if (!column) return;
+        actions.addColumn(model, column, type);
+        setName('');
+    };
+    return (
+        <li className="nodrag flex items-center gap-1">
+            <input
+                autoFocus
+                className={cn(fieldClass, 'w-24')}
+                value={name}
+                placeholder="column_name"
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') submit();
+                    if (e.key === 'Escape') onDone();
+                }}
+                aria-label="New column name"
+            />
+            <select className={cn(fieldClass, 'w-20')} value={type} onChange={(e) => setType(e.target.value)} aria-label="New column type">
+                {COLUMN_TYPES.map((t) => (
+                    <option key={t} value={t}>
+                        {t}
+                    </option>
+                ))}
+            </select>
+            <button type="button" className="nodrag text-muted-foreground hover:text-foreground" onClick={submit} title="Add column">
+                <Check className="size-3" />
+            </button>
+        </li>
+    );
 }
 
-export function ModelNode({ data }: NodeProps<ModelNodeData>) {
+export function ModelNode({
+    data,
+    selected,
+    isConnectable,
+    targetPosition = Position.Top,
+    sourcePosition = Position.Bottom,
+}: NodeProps<ModelNodeData>) {
+    const editActions = useContext(ColumnEditContext);
+    const bringIntoDraft = useContext(BringIntoDraftContext);
+    const refactorActions = useContext(ModelRefactorContext);
+    // Pivot columns live under `pivots` on a model, not under a model of their own.
+    const actions = data.pivot || data.external ? null : editActions;
+    const refactor = data.pivot || data.external ? null : refactorActions;
+    const [menuOpen, setMenuOpen] = useState(false);
+    const [expanded, setExpanded] = useState(false);
+    const [editingColumn, setEditingColumn] = useState<string | null>(null);
+    const [adding, setAdding] = useState(false);
     const relationCount = data.relationCount ?? 0;
+    const editing = editingColumn !== null || adding;
+    const visibleColumns = expanded || editing ? data.columns : data.columns.slice(0, COLLAPSED_COLUMN_COUNT);
+    const hiddenCount = data.columns.length - visibleColumns.length;
+
     return (
-        <Tooltip>
+        <Tooltip open={editing || menuOpen ? false : undefined}>
             <TooltipTrigger asChild>
-                <Card className="min-w-[200px] border-sidebar-border shadow-md transition-shadow hover:shadow-lg studio-card">
+                <Card
+                    onContextMenu={
+                        refactor
+                            ? (e) => {
+                                  e.preventDefault();
+                                  setMenuOpen(true);
+                              }
+                            : undefined
+                    }
+                    className={cn(
+                        'group min-w-[200px] border-sidebar-border shadow-md transition-shadow hover:shadow-lg studio-card',
+                        data.external && 'border-dashed opacity-60 shadow-none hover:opacity-100',
+                        data.change && changeCardClass[data.change.kind],
+                        selected && 'ring-2 ring-primary',
+                    )}
+                >
+                    <Handle
+                        type="target"
+                        id={NODE_TARGET_HANDLE}
+                        position={targetPosition}
+                        isConnectable={isConnectable}
+                        className="!size-2.5 !border-primary !bg-card opacity-0 transition-opacity group-hover:opacity-100"
+                    />
+                    <Handle
+                        type="source"
+                        id={NODE_SOURCE_HANDLE}
+                        position={sourcePosition}
+                        isConnectable={isConnectable}
+                        title="Drag to another model to add a relationship"
+                        className="!size-2.5 !border-primary !bg-primary opacity-0 transition-opacity group-hover:opacity-100"
+                    />
                     <CardHeader className="flex flex-row items-center justify-between gap-2 pb-1 text-sm font-semibold">
                         <div className="flex min-w-0 flex-col">
-                            <span>{data.label}</span>
+                            <span className={cn(data.pivot && 'font-mono text-xs')}>{data.label}</span>
+                            {data.pivot && (
+                                <span className="text-[10px] font-normal text-muted-foreground">
+                                    pivot: {data.pivot.models.join(' ↔ ')}
+                                </span>
+                            )}
                             {data.tableName && (
                                 <span className="text-[10px] font-normal text-muted-foreground" title="Laravel table name">
                                     table: {data.tableName}
                                 </span>
                             )}
                         </div>
+                        {data.external && (
+                            <Badge variant="outline" className="text-[10px] h-4">
+                                existing
+                            </Badge>
+                        )}
+                        {data.warnings && data.warnings.length > 0 && (
+                            <Badge
+                                variant="outline"
+                                className="h-4 gap-0.5 border-amber-500/50 text-[10px] text-amber-600 dark:text-amber-400"
+                                title={data.warnings.join('\n')}
+                            >
+                                <AlertTriangle className="size-2.5" />
+                                {data.warnings.length}
+                            </Badge>
+                        )}
                         {relationCount > 0 && (
                             <Badge variant="secondary" className="text-[10px] h-4">
                                 {relationCount} rel
                             </Badge>
                         )}
+                        {refactor && (
+                            <DropdownMenu open={menuOpen} onOpenChange={setMenuOpen}>
+                                <DropdownMenuTrigger asChild>
+                                    <button
+                                        type="button"
+                                        className="nodrag rounded text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100 data-[state=open]:opacity-100"
+                                        title="Model actions"
+                                        aria-label={`${data.label} actions`}
+                                    >
+                                        <MoreHorizontal className="size-3.5" />
+                                    </button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                    <DropdownMenuItem onSelect={() => refactor.renameModel(data.label)}>
+                                        <Pencil className="size-3.5" />
+                                        Rename model…
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem className="text-destructive focus:text-destructive" onSelect={() => refactor.deleteModel(data.label)}>
+                                        <Trash2 className="size-3.5" />
+                                        Delete model…
+                                    </DropdownMenuItem>
+                                </DropdownMenuContent>
+                            </DropdownMenu>
+                        )}
                     </CardHeader>
                     <CardContent className="pt-0">
-                        <ul className="space-y-0.5 text-[10px] text-muted-foreground">
-                            {data.columns.length === 0 ? (
-                                <li className="italic">no columns</li>
-                            ) : (
-                                data.columns.slice(0, 8).map((col) => (
-                                    <li key={col} className="truncate font-mono">
-                                        {col}
+                        <ul className="grid grid-cols-[auto_auto_auto_minmax(0,1fr)] gap-x-1.5 gap-y-0.5 text-[10px] text-muted-foreground [&>li]:col-span-full">
+                            {visibleColumns.map((col) =>
+                                actions && editingColumn === col.name ? (
+                                    <ColumnEditor
+                                        key={col.name}
+                                        model={data.label}
+                                        column={col}
+                                        actions={actions}
+                                        handles={<ColumnHandles columns={[col]} />}
+                                        onRenamed={setEditingColumn}
+                                        onDone={() => setEditingColumn(null)}
+                                    />
+                                ) : (
+                                    <li
+                                        key={col.name}
+                                        className={cn(
+                                            'group/col relative grid grid-cols-subgrid items-center font-mono',
+                                            col.implicit && 'italic opacity-70',
+                                            col.change && CHANGE_TEXT_CLASS[col.change.kind],
+                                            col.change?.kind === 'removed' && 'line-through',
+                                        )}
+                                        title={
+                                            col.change
+                                                ? columnChangeTitle(col.change)
+                                                : col.morph
+                                                ? `Polymorphic key for ${col.morph} (morphTo)`
+                                                : col.implicit
+                                                  ? 'Not in the draft; added by the generator'
+                                                  : col.references
+                                                    ? `Foreign key to ${col.references}`
+                                                    : undefined
+                                        }
+                                    >
+                                        <ColumnHandles columns={[col]} />
+                                        <ColumnIcons column={col} />
+                                        <span className={cn('truncate', !col.change && 'text-foreground/80')}>{col.name}</span>
+                                        <span>{columnTypeLabel(col.definition)}</span>
+                                        <span className="flex min-w-0 items-center gap-1">
+                                            <span className="truncate opacity-70">{textModifiers(col)}</span>
+                                            {actions && !col.implicit && (
+                                                <button
+                                                    type="button"
+                                                    className="nodrag ml-auto opacity-0 hover:text-foreground group-hover/col:opacity-100"
+                                                    onClick={() => {
+                                                        setAdding(false);
+                                                        setEditingColumn(col.name);
+                                                    }}
+                                                    title={`Edit ${col.name}`}
+                                                >
+                                                    <Pencil className="size-2.5" />
+                                                </button>
+                                            )}
+                                        </span>
+                                    </li>
+                                ),
+                            )}
+                            {data.external ? (
+                                bringIntoDraft && (
+                                    <li>
+                                        <button
+                                            type="button"
+                                            className="nodrag flex items-center gap-1 hover:text-foreground"
+                                            onClick={() => bringIntoDraft(data.label)}
+                                        >
+                                            <Download className="size-2.5" />
+                                            Bring into draft
+                                        </button>
                                     </li>
-                                ))
+                                )
+                            ) : (
+                                data.columns.every((c) => c.implicit) && !adding && <li className="italic">no columns</li>
+                            )}
+                            {hiddenCount > 0 && (
+                                <li className="relative">
+                                    <ColumnHandles columns={data.columns.slice(visibleColumns.length)} />
+                                    <button type="button" className="nodrag italic hover:text-foreground" onClick={() => setExpanded(true)}>
+                                        +{hiddenCount} more
+                                    </button>
+                                </li>
+                            )}
+                            {expanded && !editing && data.columns.length > COLLAPSED_COLUMN_COUNT && (
+                                <li>
+                                    <button type="button" className="nodrag italic hover:text-foreground" onClick={() => setExpanded(false)}>
+                                        show less
+                                    </button>
+                                </li>
+                            )}
+                            {actions && adding && (
+                                <NewColumnRow model={data.label} actions={actions} onDone={() => setAdding(false)} />
                             )}
-                            {data.columns.length > 8 && (
-                                <li className="italic">+{data.columns.length - 8} more</li>
+                            {actions && (
+                                <li>
+                                    <button
+                                        type="button"
+                                        className="nodrag flex items-center gap-1 text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100"
+                                        onClick={() => {
+                                            setEditingColumn(null);
+                                            setAdding((v) => !v);
+                                        }}
+                                    >
+                                        <Plus className="size-2.5" />
+                                        {adding ? 'close' : 'column'}
+                                    </button>
+                                </li>
                             )}
                         </ul>
                     </CardContent>
                 </Card>
             </TooltipTrigger>
             <TooltipContent side="right" className="max-w-[200px]">
-                <p className="font-semibold">{data.label} Model</p>
-                <p className="text-[10px] mt-1">Laravel will generate a <code className="bg-muted px-1 rounded">app/Models/{data.label}.php</code> class and a migration for the <code className="bg-muted px-1 rounded">{data.tableName}</code> table.</p>
+                {data.external ? (
+                    <>
+                        <p className="font-semibold">{data.label} (existing model)</p>
+                        <p className="text-[10px] mt-1">Already in the app but not in the draft, so nothing is generated for it. Bring it into the draft to import its columns from the codebase and database.</p>
+                    </>
+                ) : data.pivot ? (
+                    <>
+                        <p className="font-semibold">{data.label} pivot table</p>
+                        <p className="text-[10px] mt-1">Joins {data.pivot.models[0]} and {data.pivot.models[1]} for their belongsToMany relationship. Laravel will generate a migration only; rename it or add columns under <code className="bg-muted px-1 rounded">pivots</code> on either model.</p>
+                    </>
+                ) : (
+                    <>
+                        <p className="font-semibold">{data.label} Model</p>
+                        <p className="text-[10px] mt-1">Laravel will generate a <code className="bg-muted px-1 rounded">app/Models/{data.label}.php</code> class and a migration for the <code className="bg-muted px-1 rounded">{data.tableName}</code> table.</p>
+                    </>
+                )}
+                {data.warnings && data.warnings.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 border-t border-border pt-1 text-[10px] text-amber-600 dark:text-amber-400">
+                        {data.warnings.map((warning) => (
+                            <li key={warning}>⚠ {warning}</li>
+                        ))}
+                    </ul>
+                )}
+                {data.change && data.change.notes.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 border-t border-border pt-1 font-mono text-[10px]">
+                        {data.change.notes.map((note) => (
+                            <li key={note}>{note}</li>
+                        ))}
+                    </ul>
+                )}
             </TooltipContent>
         </Tooltip>
     );
@@ -0,0 +1,113 @@
+import { BaseEdge, EdgeLabelRenderer, getSmoothStepPath, type EdgeProps } from 'reactflow';
+import { AlertTriangle } from 'lucide-react';
+
+/** Cardinality at one end of a relation edge (1, 0..1, many), drawn in crow's-foot notation. */
+export type Cardinality = 'one' | 'zeroOrOne' | 'many';
+
+export interface RelationEdgeData {
+    relType?: string;
+    /** Draft entry of a declared relationship ("User" or "User:author"). */
+    entry?: string;
+    /** Relations this edge stands for (both sides of an inverse pair, pivot or collapsed edges). */
+    relationIds?: string[];
+    sourceCardinality?: Cardinality;
+    targetCardinality?: Cardinality;
+    /** The relation is declared on one model only. */
+    missingInverse?: boolean;
+    /** Relationship lint messages about this edge (see relationLint). */
+    warnings?: string[];
+    [key: string]: unknown;
+}
+
+/**
+ * Crow's-foot symbol drawn at the end of an edge, tip on the node border. The marker points
+ * along the path, so `auto-start-reverse` lets the same shape sit at either end.
+ */
+function CardinalityMarker({ id, cardinality, color }: { id: string; cardinality: Cardinality; color: string }) {
+    return (
+        <marker
+            id={id}
+            viewBox="0 0 20 20"
+            refX={20}
+            refY={10}
+            markerWidth={20}
+            markerHeight={20}
+            markerUnits="userSpaceOnUse"
+            orient="auto-start-reverse"
+        >
+            <g fill="none" stroke={color} strokeWidth={1.5}>
+                {cardinality === 'many' && <path d="M6 10 L20 3 M6 10 L20 10 M6 10 L20 17" />}
+                {cardinality === 'one' && <path d="M10 4 L10 16 M15 4 L15 16" />}
+                {cardinality === 'zeroOrOne' && (
+                    <>
+                        <circle cx={8} cy={10} r={3.5} fill="var(--color-card)" />
+                        <path d="M15 4 L15 16" />
+                    </>
+                )}
+            </g>
+        </marker>
+    );
+}
+
+/** Smooth-step relation edge with crow's-foot cardinality markers at both ends. */
+export function RelationEdge({
+    id,
+    sourceX,
+    sourceY,
+    targetX,
+    targetY,
+    sourcePosition,
+    targetPosition,
+    style,
+    data,
+    label,
+    labelStyle,
+    labelShowBg,
+    labelBgStyle,
+    labelBgPadding,
+    labelBgBorderRadius,
+    interactionWidth,
+}: EdgeProps<RelationEdgeData>) {
+    const [path, labelX, labelY] = getSmoothStepPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
+    const color = typeof style?.stroke === 'string' ? style.stroke : 'var(--color-muted-foreground)';
+    // Marker ids end up in url(#…), so keep them to characters that need no escaping.
+    const markerId = `relation-${id.replace(/[^\w-]/g, '_')}`;
+    const source = data?.sourceCardinality;
+    const target = data?.targetCardinality;
+
+    return (
+        <>
+            <defs>
+                {source && <CardinalityMarker id={`${markerId}-source`} cardinality={source} color={color} />}
+                {target && <CardinalityMarker id={`${markerId}-target`} cardinality={target} color={color} />}
+            </defs>
+            <BaseEdge
+                id={id}
+                path={path}
+                style={{ stroke: color, ...style }}
+                markerStart={source ? `url(#${markerId}-source)` : undefined}
+                markerEnd={target ? `url(#${markerId}-target)` : undefined}
+                label={label}
+                labelX={labelX}
+                labelY={labelY}
+                labelStyle={labelStyle}
+                labelShowBg={labelShowBg}
+                labelBgStyle={labelBgStyle}
+                labelBgPadding={labelBgPadding}
+                labelBgBorderRadius={labelBgBorderRadius}
+                interactionWidth={interactionWidth}
+            />
+            {data?.warnings && data.warnings.length > 0 && (
+                <EdgeLabelRenderer>
+                    <div
+                        className="nodrag nopan absolute flex items-center rounded-full border border-amber-500/50 bg-card p-0.5 text-amber-600 dark:text-amber-400"
+                        style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY - 16}px)`, pointerEvents: 'all' }}
+                        title={data.warnings.join('\n')}
+                    >
+                        <AlertTriangle className="size-3" />
+                    </div>
+                </EdgeLabelRenderer>
+            )}
+        </>
+    );
+}
@@ -5,17 +5,36 @@ import {
     MiniMap,
     ReactFlow,
     ReactFlowProvider,
+    SelectionMode,
+    useNodesState,
     useReactFlow,
+    type Connection,
     type Edge,
     type Node,
+    type OnSelectionChangeParams,
+    type Viewport,
 } from 'reactflow';
-import { useEffect, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 import 'reactflow/dist/style.css';
+import type { LayoutDirection, NodePositions } from './autoLayout';
+import { exportDiagram, type DiagramExportFormat, type DiagramExportScope } from './diagramExport';
+import { applyDraftDiff, type DraftDiff } from './draftDiff';
 import type { ParsedDraft } from './draftToFlow';
 import { draftToFlow } from './draftToFlow';
-import { ModelNode } from './ModelNode';
+import { ModelGroupNode, ModelGroupToggleContext } from './ModelGroupNode';
+import {
+    BringIntoDraftContext,
+    ColumnEditContext,
+    ModelNode,
+    ModelRefactorContext,
+    type ColumnEditActions,
+    type ModelRefactorActions,
+} from './ModelNode';
+import { RelationEdge } from './RelationEdge';
+import { applyRelationFindings, type RelationFinding } from './relationLint';
 
-const nodeTypes = { model: ModelNode };
+const nodeTypes = { model: ModelNode, modelGroup: ModelGroupNode };
+const edgeTypes = { relation: RelationEdge };
 
 export interface SchemaDiagramProps {
     draft: ParsedDraft | null;
@@ -25,21 +44,163 @@ export interface SchemaDiagramProps {
     onFocusDone?: () => void;
     /** When set, the matching edge is highlighted (stronger stroke). */
     highlightEdgeId?: string | null;
+    /** Further edges to highlight the same way, e.g. every hop of a relationship path. */
+    highlightEdgeIds?: string[];
     /** When false, the minimap is hidden. */
     showMinimap?: boolean;
     /** Ref to expose fitView() to parent (e.g. for F shortcut). */
     fitViewRef?: React.MutableRefObject<(() => void) | null>;
+    /** Ref to expose reading and restoring the viewport (pan and zoom) to parent, e.g. for saved views. */
+    viewportRef?: React.MutableRefObject<{ get: () => Viewport; set: (viewport: Viewport) => void } | null>;
+    /** When set, only these models are shown, with the pivots and external models between them. */
+    visibleModels?: string[] | null;
+    /** Rank direction of the layered auto-layout: top-down (TB) or left-right (LR). */
+    layoutDirection?: LayoutDirection;
+    /** Ref to expose re-layout to parent (discards stored positions, re-runs auto-layout, fits view). */
+    relayoutRef?: React.MutableRefObject<((direction?: LayoutDirection) => void) | null>;
+    /** Ref to expose image export to parent (downloads the whole graph or the visible area). */
+    exportRef?: React.MutableRefObject<((format: DiagramExportFormat, scope?: DiagramExportScope) => Promise<void>) | null>;
+    /** Stored node positions (model name → position); models without one are auto-placed. */
+    positions?: NodePositions;
+    /** Called with every node's position after the user drags a node or re-layouts. */
+    onPositionsChange?: (positions: NodePositions) => void;
+    /** Called when the user drags a connection from one model card to another. */
+    onConnectModels?: (source: string, target: string) => void;
+    /** Called with the draft models selected by click, shift-click or shift-drag (a selected group counts all its models). */
+    onSelectionChange?: (models: string[]) => void;
+    /** When set, model cards offer inline column editing that calls these actions. */
+    columnEdits?: ColumnEditActions;
+    /** Domain groups (`group:` in the draft) shown collapsed as a summary card. */
+    collapsedGroups?: string[];
+    /** Called when the user collapses or expands a domain group. */
+    onToggleGroup?: (group: string) => void;
+    /** The app's existing models; those the draft references but does not define appear as external nodes. */
+    externalModels?: Array<{ name: string; table: string }>;
+    /** When set, external nodes offer to copy the model into the draft. */
+    onBringIntoDraft?: (model: string) => void;
+    /** When set, model cards offer "Rename model…" and "Delete model…" in their menu. */
+    modelRefactors?: ModelRefactorActions;
+    /** When set, the diagram shows changes since the last build (including removed models, columns and relations). */
+    diff?: DraftDiff | null;
+    /** Relationship lint findings, shown as warning badges on the models and edges they are about. */
+    findings?: RelationFinding[];
+}
+
+/**
+ * Hide models outside `visible` (React Flow then hides their edges too). Pivot tables stay when
+ * both their models do, external models when they are linked to a visible one, and group boxes
+ * while any member is shown. Nodes already hidden by a collapsed group stay hidden.
+ */
+function showOnlyModels(nodes: Node[], edges: Edge[], visible: string[]): Node[] {
+    const linked = new Set(edges.flatMap((e) => (visible.includes(e.source) ? [e.target] : visible.includes(e.target) ? [e.source] : [])));
+    const shown = (node: Node): boolean => {
+        if (node.type === 'modelGroup') return (node.data.models as string[]).some((m) => visible.includes(m));
+        if (node.data?.pivot) return (node.data.pivot.models as string[]).every((m) => visible.includes(m));
+        if (node.data?.external) return linked.has(node.id);
+        return visible.includes(node.id);
+    };
+    return nodes.map((node) => (shown(node) ? node : { ...node, hidden: true }));
+}
+
+/** Absolute model positions; members of a group are stored relative to the group box. */
+function positionsOf(nodes: Node[]): NodePositions {
+    const byId = new Map(nodes.map((n) => [n.id, n]));
+    const positions: NodePositions = {};
+    for (const n of nodes) {
+        if (n.type === 'modelGroup') continue;
+        const parent = n.parentNode ? byId.get(n.parentNode) : undefined;
+        const x = n.position.x + (parent?.position.x ?? 0);
+        const y = n.position.y + (parent?.position.y ?? 0);
+        positions[n.id] = { x: Math.round(x), y: Math.round(y) };
+    }
+    return positions;
+}
+
+/** Last items handed to React Flow, with their serialized content, keyed by id. */
+interface IdentityCache<T> {
+    items: T[];
+    byId: Map<string, { item: T; json: string }>;
+}
+
+/**
+ * Return the cached object for every node or edge whose content did not change, and the cached
+ * array when nothing changed at all, so React Flow only re-renders what an edit actually touched.
+ */
+function reuseUnchanged<T extends { id: string }>(next: T[], cache: IdentityCache<T>): T[] {
+    const byId = new Map<string, { item: T; json: string }>();
+    let changed = next.length !== cache.items.length;
+    const items = next.map((item, i) => {
+        const json = JSON.stringify(item);
+        const cached = cache.byId.get(item.id);
+        const reused = cached && cached.json === json ? cached.item : item;
+        if (reused !== cache.items[i]) changed = true;
+        byId.set(item.id, { item: reused, json });
+        return reused;
+    });
+    cache.byId = byId;
+    if (changed) cache.items = items;
+    return cache.items;
 }
 
-function SchemaDiagramInner({ draft, focusNodeId, onFocusDone, highlightEdgeId, showMinimap = true, fitViewRef }: SchemaDiagramProps) {
-    const { nodes, edges: rawEdges } = draft ? draftToFlow(draft) : { nodes: [] as Node[], edges: [] as Edge[] };
+function SchemaDiagramInner({
+    draft,
+    focusNodeId,
+    onFocusDone,
+    highlightEdgeId,
+    highlightEdgeIds,
+    showMinimap = true,
+    fitViewRef,
+    viewportRef,
+    visibleModels,
+    layoutDirection = 'TB',
+    relayoutRef,
+    exportRef,
+    positions,
+    onPositionsChange,
+    onConnectModels,
+    onSelectionChange,
+    columnEdits,
+    collapsedGroups,
+    onToggleGroup,
+    externalModels,
+    onBringIntoDraft,
+    modelRefactors,
+    diff,
+    findings,
+}: SchemaDiagramProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const buildFlow = useCallback(
+        (direction: LayoutDirection, stored?: NodePositions) => {
+            if (!draft) return { nodes: [] as Node[], edges: [] as Edge[] };
+            const options = { direction, positions: stored, collapsedGroups, externalModels };
+            const flow = diff ? draftToFlow(diff.merged, options) : draftToFlow(draft, options);
+            const decorated = diff ? applyDraftDiff(flow.nodes, flow.edges, diff) : flow;
+            const linted = findings ? applyRelationFindings(decorated.nodes, decorated.edges, findings) : decorated;
+            return visibleModels ? { ...linted, nodes: showOnlyModels(linted.nodes, linted.edges, visibleModels) } : linted;
+        },
+        [draft, diff, findings, collapsedGroups, externalModels, visibleModels],
+    );
+    const nodeCache = useRef<IdentityCache<Node>>({ items: [], byId: new Map() });
+    const edgeCache = useRef<IdentityCache<Edge>>({ items: [], byId: new Map() });
+    const flow = useMemo(() => {
+        const next = buildFlow(layoutDirection, positions);
+        return { nodes: reuseUnchanged(next.nodes, nodeCache.current), edges: reuseUnchanged(next.edges, edgeCache.current) };
+    }, [buildFlow, layoutDirection, positions]);
+    const rawEdges = flow.edges;
+    const [nodes, setNodes, onNodesChange] = useNodesState(flow.nodes);
+    useEffect(() => {
+        setNodes(flow.nodes);
+    }, [flow.nodes, setNodes]);
     const edges = useMemo(() => {
-        if (!highlightEdgeId) return rawEdges;
+        const highlighted = [...(highlightEdgeId ? [highlightEdgeId] : []), ...(highlightEdgeIds ?? [])];
+        if (highlighted.length === 0) return rawEdges;
         return rawEdges.map((e) =>
-            e.id === highlightEdgeId ? { ...e, style: { ...e.style, stroke: 'var(--color-primary)', strokeWidth: 2 } } : e,
+            highlighted.some((id) => e.id === id || e.data?.relationIds?.includes(id))
+                ? { ...e, style: { ...e.style, stroke: 'var(--color-primary)', strokeWidth: 2 } }
+                : e,
         );
-    }, [rawEdges, highlightEdgeId]);
-    const { fitView } = useReactFlow();
+    }, [rawEdges, highlightEdgeId, highlightEdgeIds]);
+    const { fitView, getViewport, setViewport } = useReactFlow();
 
     useEffect(() => {
         if (fitViewRef) {
@@ -50,36 +211,129 @@ function SchemaDiagramInner({ draft, focusNodeId, onFocusDone, highlightEdgeId,
         }
     }, [fitView, fitViewRef]);
 
+    useEffect(() => {
+        if (viewportRef) {
+            viewportRef.current = { get: getViewport, set: (viewport) => setViewport(viewport, { duration: 300 }) };
+            return () => {
+                viewportRef.current = null;
+            };
+        }
+    }, [getViewport, setViewport, viewportRef]);
+
+    const relayout = useCallback(
+        (direction?: LayoutDirection) => {
+            const laidOut = buildFlow(direction ?? layoutDirection).nodes;
+            setNodes(laidOut);
+            onPositionsChange?.(positionsOf(laidOut));
+            requestAnimationFrame(() => fitView({ duration: 300 }));
+        },
+        [buildFlow, setNodes, layoutDirection, onPositionsChange, fitView],
+    );
+
+    const handleNodeDragStop = useCallback(
+        (_event: React.MouseEvent, _node: Node, dragged: Node[]) => {
+            const draggedById = new Map(dragged.map((n) => [n.id, n]));
+            onPositionsChange?.(positionsOf(nodes.map((n) => draggedById.get(n.id) ?? n)));
+        },
+        [nodes, onPositionsChange],
+    );
+
+    useEffect(() => {
+        if (relayoutRef) {
+            relayoutRef.current = relayout;
+            return () => {
+                relayoutRef.current = null;
+            };
+        }
+    }, [relayout, relayoutRef]);
+
+    const exportImage = useCallback(
+        async (format: DiagramExportFormat, scope?: DiagramExportScope) => {
+            const flowElement = containerRef.current?.querySelector<HTMLElement>('.react-flow');
+            if (!flowElement) throw new Error('Diagram is not rendered.');
+            await exportDiagram(flowElement, nodes, format, scope);
+        },
+        [nodes],
+    );
+
+    useEffect(() => {
+        if (exportRef) {
+            exportRef.current = exportImage;
+            return () => {
+                exportRef.current = null;
+            };
+        }
+    }, [exportImage, exportRef]);
+
+    const handleSelectionChange = useCallback(
+        ({ nodes: selected }: OnSelectionChangeParams) => {
+            const models = selected.flatMap((node): string[] => {
+                if (node.type === 'modelGroup') return node.data.models;
+                return node.type === 'model' && !node.data.pivot && !node.data.external ? [node.id] : [];
+            });
+            onSelectionChange?.([...new Set(models)]);
+        },
+        [onSelectionChange],
+    );
+
+    const handleConnect = useCallback(
+        (connection: Connection) => {
+            if (connection.source && connection.target) {
+                onConnectModels?.(connection.source, connection.target);
+            }
+        },
+        [onConnectModels],
+    );
+
     useEffect(() => {
         if (!focusNodeId || nodes.length === 0) return;
-        const nodeIds = nodes.map((n) => n.id);
-        if (!nodeIds.includes(focusNodeId)) return;
-        fitView({ nodes: [{ id: focusNodeId }], duration: 300, padding: 0.2 });
+        const node = nodes.find((n) => n.id === focusNodeId);
+        if (!node) return;
+        // A model inside a collapsed group is focused through the group's card.
+        const id = node.hidden && node.parentNode ? node.parentNode : focusNodeId;
+        fitView({ nodes: [{ id }], duration: 300, padding: 0.2 });
         const t = setTimeout(() => onFocusDone?.(), 350);
         return () => clearTimeout(t);
     }, [focusNodeId, nodes, fitView, onFocusDone]);
 
     return (
-        <div className="h-full w-full rounded-lg border border-sidebar-border bg-muted/20">
-            <ReactFlow
-                nodes={nodes}
-                edges={edges}
-                nodeTypes={nodeTypes}
-                fitView
-                minZoom={0.2}
-                maxZoom={1.5}
-                defaultEdgeOptions={{ type: 'smoothstep' }}
-            >
-                <Background variant={BackgroundVariant.Dots} gap={16} size={1} />
-                <Controls className="!bottom-2 !left-2 !border-sidebar-border !bg-card" />
-                {showMinimap && (
-                    <MiniMap
-                        className="!bottom-2 !right-2 !rounded-md !border !border-sidebar-border !bg-card"
-                        nodeColor="var(--color-muted)"
-                        maskColor="var(--color-background) / 0.8"
-                    />
-                )}
-            </ReactFlow>
+        <div ref={containerRef} className="h-full w-full rounded-lg border border-sidebar-border bg-muted/20">
+            <ColumnEditContext.Provider value={columnEdits ?? null}>
+                <ModelGroupToggleContext.Provider value={onToggleGroup ?? null}>
+                    <BringIntoDraftContext.Provider value={onBringIntoDraft ?? null}>
+                        <ModelRefactorContext.Provider value={modelRefactors ?? null}>
+                            <ReactFlow
+                                nodes={nodes}
+                                edges={edges}
+                                onNodesChange={onNodesChange}
+                                onNodeDragStop={handleNodeDragStop}
+                                onConnect={handleConnect}
+                                onSelectionChange={handleSelectionChange}
+                                selectionMode={SelectionMode.Partial}
+                                multiSelectionKeyCode={['Shift', 'Meta', 'Control']}
+                                nodesConnectable={!!onConnectModels}
+                                deleteKeyCode={null}
+                                nodeTypes={nodeTypes}
+                                edgeTypes={edgeTypes}
+                                fitView
+                                minZoom={0.2}
+                                maxZoom={1.5}
+                                defaultEdgeOptions={{ type: 'smoothstep' }}
+                            >
+                                <Background variant={BackgroundVariant.Dots} gap={16} size={1} />
+                                <Controls className="!bottom-2 !left-2 !border-sidebar-border !bg-card" />
+                                {showMinimap && (
+                                    <MiniMap
+                                        className="!bottom-2 !right-2 !rounded-md !border !border-sidebar-border !bg-card"
+                                        nodeColor="var(--color-muted)"
+                                        maskColor="var(--color-background) / 0.8"
+                                    />
+                                )}
+                            </ReactFlow>
+                        </ModelRefactorContext.Provider>
+                    </BringIntoDraftContext.Provider>
+                </ModelGroupToggleContext.Provider>
+            </ColumnEditContext.Provider>
         </div>
     );
 }
@@ -0,0 +1,189 @@
+import { autocompletion } from '@codemirror/autocomplete';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { yaml } from '@codemirror/lang-yaml';
+import {
+    HighlightStyle,
+    bracketMatching,
+    foldGutter,
+    foldKeymap,
+    indentOnInput,
+    indentUnit,
+    syntaxHighlighting,
+} from '@codemirror/language';
+import { lintGutter, setDiagnostics } from '@codemirror/lint';
+import { highlightSelectionMatches, search, searchKeymap } from '@codemirror/search';
+import { Compartment, EditorState } from '@codemirror/state';
+import {
+    EditorView,
+    drawSelection,
+    highlightActiveLine,
+    highlightActiveLineGutter,
+    highlightSpecialChars,
+    keymap,
+    lineNumbers,
+} from '@codemirror/view';
+import { tags } from '@lezer/highlight';
+import { useEffect, useRef } from 'react';
+import { cn } from '../lib/utils';
+import { draftCompletionSource, type DraftCompletionData } from './draftCompletion';
+import type { DraftDiagnostic } from './draftDiagnostics';
+
+export interface YamlEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    /** Follows the Studio's `dark` class toggle. */
+    dark?: boolean;
+    /** Models and package keys offered by autocompletion (see draftCompletion). */
+    completion?: DraftCompletionData;
+    /** Errors shown with gutter markers, underlines and hover messages (offsets into `value`). */
+    diagnostics?: DraftDiagnostic[];
+    /** Ref to expose moving the cursor to an offset (scrolled into view) to parent, e.g. from the Results panel. */
+    editorRef?: React.MutableRefObject<{ reveal: (pos: number) => void } | null>;
+    className?: string;
+}
+
+/** Editor chrome in the Studio's own colors (CSS variables), so it follows the theme by itself. */
+const studioTheme = EditorView.theme({
+    '&': { height: '100%', fontSize: '0.875rem', backgroundColor: 'var(--color-background)', color: 'var(--color-foreground)' },
+    '&.cm-focused': { outline: 'none' },
+    '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', lineHeight: '1.5' },
+    '.cm-gutters': { backgroundColor: 'var(--color-muted)', color: 'var(--color-muted-foreground)', borderRight: '1px solid var(--color-border)' },
+    '.cm-activeLine, .cm-activeLineGutter': { backgroundColor: 'color-mix(in oklab, var(--color-muted) 60%, transparent)' },
+    '.cm-cursor': { borderLeftColor: 'var(--color-foreground)' },
+    '&.cm-focused .cm-selectionBackground, .cm-selectionBackground, ::selection': {
+        backgroundColor: 'color-mix(in oklab, var(--color-ring) 35%, transparent)',
+    },
+    '.cm-panels': { backgroundColor: 'var(--color-card)', color: 'var(--color-card-foreground)' },
+    '.cm-panels.cm-panels-top': { borderBottom: '1px solid var(--color-border)' },
+    '.cm-textfield, .cm-button': { borderRadius: 'var(--radius-sm)' },
+    '.cm-searchMatch': { backgroundColor: 'color-mix(in oklab, #f59e0b 35%, transparent)' },
+    '.cm-foldPlaceholder': { backgroundColor: 'var(--color-muted)', border: 'none', color: 'var(--color-muted-foreground)' },
+});
+
+const lightHighlight = HighlightStyle.define([
+    { tag: [tags.definition(tags.propertyName), tags.propertyName], color: '#0550ae' },
+    { tag: [tags.string, tags.content], color: '#0a3069' },
+    { tag: [tags.number, tags.bool, tags.null], color: '#953800' },
+    { tag: [tags.keyword, tags.typeName, tags.labelName], color: '#8250df' },
+    { tag: tags.comment, color: '#6e7781', fontStyle: 'italic' },
+    { tag: [tags.separator, tags.punctuation, tags.squareBracket, tags.brace], color: '#57606a' },
+]);
+
+const darkHighlight = HighlightStyle.define(
+    [
+        { tag: [tags.definition(tags.propertyName), tags.propertyName], color: '#79c0ff' },
+        { tag: [tags.string, tags.content], color: '#a5d6ff' },
+        { tag: [tags.number, tags.bool, tags.null], color: '#ffa657' },
+        { tag: [tags.keyword, tags.typeName, tags.labelName], color: '#d2a8ff' },
+        { tag: tags.comment, color: '#8b949e', fontStyle: 'italic' },
+        { tag: [tags.separator, tags.punctuation, tags.squareBracket, tags.brace], color: '#8b949e' },
+    ],
+    { themeType: 'dark' },
+);
+
+const highlightFor = (dark: boolean) => [syntaxHighlighting(dark ? darkHighlight : lightHighlight), EditorView.darkTheme.of(dark)];
+
+/** YAML does not allow tabs in indentation: pasted ones become two spaces each. */
+const pastedTabsToSpaces = EditorView.clipboardInputFilter.of((text) => text.replace(/^\t+/gm, (tabs) => '  '.repeat(tabs.length)));
+
+/**
+ * CodeMirror editor for the draft YAML: highlighting, line numbers, folding (each model folds on
+ * its key), find/replace (Mod-F), schema-aware completion and two-space indentation, with Tab indenting instead of moving focus.
+ */
+export function YamlEditor({ value, onChange, dark = false, completion, diagnostics, editorRef, className }: YamlEditorProps) {
+    const hostRef = useRef<HTMLDivElement>(null);
+    const viewRef = useRef<EditorView | null>(null);
+    const themeRef = useRef(new Compartment());
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+    const completionRef = useRef(completion);
+    completionRef.current = completion;
+
+    useEffect(() => {
+        if (!hostRef.current) return;
+        const view = new EditorView({
+            parent: hostRef.current,
+            state: EditorState.create({
+                doc: value,
+                extensions: [
+                    lineNumbers(),
+                    highlightActiveLineGutter(),
+                    highlightSpecialChars(),
+                    history(),
+                    lintGutter(),
+                    foldGutter(),
+                    drawSelection(),
+                    indentOnInput(),
+                    bracketMatching(),
+                    highlightActiveLine(),
+                    highlightSelectionMatches(),
+                    search({ top: true }),
+                    yaml(),
+                    autocompletion({
+                        override: [draftCompletionSource(() => completionRef.current ?? { models: [], extensions: [] })],
+                    }),
+                    indentUnit.of('  '),
+                    EditorState.tabSize.of(2),
+                    pastedTabsToSpaces,
+                    studioTheme,
+                    themeRef.current.of(highlightFor(dark)),
+                    keymap.of([...defaultKeymap, ...historyKeymap, ...foldKeymap, ...searchKeymap, indentWithTab]),
+                    EditorView.updateListener.of((update) => {
+                        if (update.docChanged) onChangeRef.current(update.state.doc.toString());
+                    }),
+                ],
+            }),
+        });
+        viewRef.current = view;
+        return () => {
+            view.destroy();
+            viewRef.current = null;
+        };
+        // The editor is created once; value and theme changes are applied below.
+    }, []);
+
+    // Draft changes from elsewhere (diagram edits, imports, undo history) replace the document.
+    useEffect(() => {
+        const view = viewRef.current;
+        if (!view || view.state.doc.toString() === value) return;
+        view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+    }, [value]);
+
+    useEffect(() => {
+        viewRef.current?.dispatch({ effects: themeRef.current.reconfigure(highlightFor(dark)) });
+    }, [dark]);
+
+    useEffect(() => {
+        const view = viewRef.current;
+        if (!view) return;
+        const length = view.state.doc.length;
+        const inDoc = (diagnostics ?? []).map((d) => ({ ...d, from: Math.min(d.from, length), to: Math.min(d.to, length) }));
+        view.dispatch(setDiagnostics(view.state, inDoc));
+    }, [diagnostics, value]);
+
+    useEffect(() => {
+        if (!editorRef) return;
+        editorRef.current = {
+            reveal: (pos) => {
+                const view = viewRef.current;
+                if (!view) return;
+                const anchor = Math.min(pos, view.state.doc.length);
+                view.dispatch({ selection: { anchor }, effects: EditorView.scrollIntoView(anchor, { y: 'center' }) });
+                view.focus();
+            },
+        };
+        return () => {
+            editorRef.current = null;
+        };
+    }, [editorRef]);
+
+    return (
+        <div
+            ref={hostRef}
+            className={cn(
+                'overflow-hidden rounded-md border border-input bg-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2 ring-offset-background',
+                className,
+            )}
+        />
+    );
+}
@@ -0,0 +1,114 @@
+import dagre from '@dagrejs/dagre';
+import { Position, type Edge, type Node } from 'reactflow';
+
+export type LayoutDirection = 'TB' | 'LR';
+
+/** Stored node positions keyed by model name (node id). */
+export type NodePositions = Record<string, { x: number; y: number }>;
+
+export const LAYOUT_DIRECTION_LABELS: Record<LayoutDirection, string> = {
+    TB: 'top-down',
+    LR: 'left-right',
+};
+
+const NODE_WIDTH = 240;
+const NODE_HEADER_HEIGHT = 64;
+const NODE_ROW_HEIGHT = 16;
+const NODE_MAX_ROWS = 9;
+
+/** Relation types whose edge points from child to parent; reversed so parents rank first. */
+const CHILD_TO_PARENT_RELATIONS = ['belongsTo', 'morphTo', 'foreignKey'];
+
+/** Gap between manually placed nodes and the block of newly placed ones. */
+const NEW_NODES_GAP = 120;
+
+/** Approximate rendered size of a ModelNode card so ranks do not overlap. */
+export function estimateNodeSize(node: Node): { width: number; height: number } {
+    const columns = Array.isArray(node.data?.columns) ? node.data.columns.length : 0;
+    const rows = Math.min(Math.max(columns, 1), NODE_MAX_ROWS);
+    return { width: NODE_WIDTH, height: NODE_HEADER_HEIGHT + rows * NODE_ROW_HEIGHT };
+}
+
+/**
+ * Layered (Sugiyama-style) layout via dagre. Parents are ranked before their
+ * children following belongsTo direction; dagre orders each rank to reduce crossings.
+ * Models with the same `data.group` are laid out as one cluster so their group box stays compact.
+ * Nodes listed in `pinned` keep their stored position; the remaining nodes are laid out
+ * among themselves and placed after the pinned block (below for TB, to the right for LR).
+ * Returns new node objects with `position` set (top-left corner, as React Flow expects).
+ */
+export function layoutNodes(
+    nodes: Node[],
+    edges: Edge[],
+    direction: LayoutDirection = 'TB',
+    pinned: NodePositions = {},
+): Node[] {
+    if (nodes.length === 0) return nodes;
+    const horizontal = direction === 'LR';
+    const handles = {
+        targetPosition: horizontal ? Position.Left : Position.Top,
+        sourcePosition: horizontal ? Position.Right : Position.Bottom,
+    };
+    const free = nodes.filter((n) => !pinned[n.id]);
+    const placed = free.length > 0 ? runDagre(free, edges, direction) : {};
+
+    const pinnedNodes = nodes.filter((n) => pinned[n.id]);
+    let offset = { x: 0, y: 0 };
+    if (pinnedNodes.length > 0 && free.length > 0) {
+        let minX = Infinity;
+        let minY = Infinity;
+        let maxX = -Infinity;
+        let maxY = -Infinity;
+        for (const n of pinnedNodes) {
+            const { width, height } = estimateNodeSize(n);
+            const p = pinned[n.id];
+            minX = Math.min(minX, p.x);
+            minY = Math.min(minY, p.y);
+            maxX = Math.max(maxX, p.x + width);
+            maxY = Math.max(maxY, p.y + height);
+        }
+        offset = horizontal ? { x: maxX + NEW_NODES_GAP, y: minY } : { x: minX, y: maxY + NEW_NODES_GAP };
+    }
+
+    return nodes.map((node) => {
+        const stored = pinned[node.id];
+        if (stored) return { ...node, ...handles, position: { x: stored.x, y: stored.y } };
+        const p = placed[node.id];
+        if (!p) return node;
+        return { ...node, ...handles, position: { x: p.x + offset.x, y: p.y + offset.y } };
+    });
+}
+
+/** Top-left positions for `nodes` from a dagre run over the edges between them. */
+function runDagre(nodes: Node[], edges: Edge[], direction: LayoutDirection): NodePositions {
+    const g = new dagre.graphlib.Graph({ multigraph: true, compound: true });
+    g.setGraph({ rankdir: direction, nodesep: 60, ranksep: 90, marginx: 20, marginy: 20 });
+    g.setDefaultEdgeLabel(() => ({}));
+
+    for (const node of nodes) {
+        g.setNode(node.id, estimateNodeSize(node));
+        const group = node.data?.group;
+        if (typeof group === 'string' && group) {
+            const cluster = `cluster:${group}`;
+            if (!g.hasNode(cluster)) g.setNode(cluster, {});
+            g.setParent(node.id, cluster);
+        }
+    }
+    for (const edge of edges) {
+        if (edge.source === edge.target || !g.hasNode(edge.source) || !g.hasNode(edge.target)) continue;
+        const relType = typeof edge.data?.relType === 'string' ? edge.data.relType : '';
+        const reversed = CHILD_TO_PARENT_RELATIONS.includes(relType);
+        const from = reversed ? edge.target : edge.source;
+        const to = reversed ? edge.source : edge.target;
+        g.setEdge(from, to, {}, edge.id);
+    }
+
+    dagre.layout(g);
+
+    const positions: NodePositions = {};
+    for (const node of nodes) {
+        const laidOut = g.node(node.id);
+        if (laidOut) positions[node.id] = { x: laidOut.x - laidOut.width / 2, y: laidOut.y - laidOut.height / 2 };
+    }
+    return positions;
+}
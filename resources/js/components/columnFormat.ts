@@ -0,0 +1,32 @@
+/**
+ * Column definition strings as written in the draft: `type[:param] modifier ...`,
+ * e.g. `string:255 unique`, `decimal:8,2 nullable`, `id:User foreign`.
+ */
+export interface ColumnDefinition {
+    type: string;
+    /** Length/precision (`string:255`) or related model for foreign keys (`id:User`). */
+    param?: string;
+    modifiers: string[];
+}
+
+export function parseColumnDefinition(definition: string): ColumnDefinition {
+    const [head = '', ...modifiers] = definition.trim().split(/\s+/);
+    const colon = head.indexOf(':');
+    if (colon < 0) return { type: head, modifiers };
+    const param = head.slice(colon + 1);
+    return { type: head.slice(0, colon), param: param || undefined, modifiers };
+}
+
+export function formatColumnDefinition(column: ColumnDefinition): string {
+    const head = column.param ? `${column.type}:${column.param}` : column.type;
+    return [head, ...column.modifiers].filter(Boolean).join(' ');
+}
+
+/** Add or remove a modifier, keeping the others in their written order. */
+export function toggleColumnModifier(definition: string, modifier: string): string {
+    const column = parseColumnDefinition(definition);
+    const modifiers = column.modifiers.includes(modifier)
+        ? column.modifiers.filter((m) => m !== modifier)
+        : [...column.modifiers, modifier];
+    return formatColumnDefinition({ ...column, modifiers });
+}
@@ -0,0 +1,61 @@
+import { toPng, toSvg } from 'html-to-image';
+import { getNodesBounds, getTransformForBounds, type Node } from 'reactflow';
+
+export type DiagramExportFormat = 'svg' | 'png';
+
+/** `graph` fits every node into the image; `viewport` captures what is currently on screen. */
+export type DiagramExportScope = 'graph' | 'viewport';
+
+const EXPORT_PADDING = 40;
+const PNG_PIXEL_RATIO = 2;
+
+/** Chrome around the canvas that should not end up in the image. */
+const EXCLUDED_CLASSES = ['react-flow__minimap', 'react-flow__controls', 'react-flow__panel', 'react-flow__attribution'];
+
+function keepInExport(node: HTMLElement): boolean {
+    return !EXCLUDED_CLASSES.some((c) => node.classList?.contains(c));
+}
+
+function download(dataUrl: string, fileName: string): void {
+    const a = document.createElement('a');
+    a.href = dataUrl;
+    a.download = fileName;
+    a.click();
+}
+
+/**
+ * Render the diagram inside `flowElement` (the `.react-flow` root) to a standalone SVG or PNG and
+ * download it. Styles are inlined from the live DOM, so the current light/dark theme colors and
+ * edge labels carry over; the background is the theme's `--background`.
+ */
+export async function exportDiagram(
+    flowElement: HTMLElement,
+    nodes: Node[],
+    format: DiagramExportFormat,
+    scope: DiagramExportScope = 'graph',
+    fileName = 'schema-diagram',
+): Promise<void> {
+    const backgroundColor = getComputedStyle(flowElement).getPropertyValue('--background').trim() || undefined;
+    const render = format === 'svg' ? toSvg : toPng;
+    const common = { backgroundColor, filter: keepInExport, pixelRatio: PNG_PIXEL_RATIO };
+
+    let dataUrl: string;
+    if (scope === 'viewport' || nodes.length === 0) {
+        dataUrl = await render(flowElement, common);
+    } else {
+        const viewport = flowElement.querySelector<HTMLElement>('.react-flow__viewport');
+        if (!viewport) throw new Error('Diagram is not rendered.');
+        const bounds = getNodesBounds(nodes);
+        const width = Math.ceil(bounds.width + EXPORT_PADDING * 2);
+        const height = Math.ceil(bounds.height + EXPORT_PADDING * 2);
+        // Zoom pinned to 1 so the image keeps the on-screen text size; the padding is in width/height.
+        const [x, y, zoom] = getTransformForBounds(bounds, width, height, 1, 1);
+        dataUrl = await render(viewport, {
+            ...common,
+            width,
+            height,
+            style: { width: `${width}px`, height: `${height}px`, transform: `translate(${x}px, ${y}px) scale(${zoom})` },
+        });
+    }
+    download(dataUrl, `${fileName}.${format}`);
+}
@@ -0,0 +1,182 @@
+import type { Completion, CompletionContext, CompletionResult, CompletionSource } from '@codemirror/autocomplete';
+import type { EditorState } from '@codemirror/state';
+import { COLUMN_MODIFIERS, COLUMN_TYPES, DRAFT_TOP_LEVEL_KEYS, RELATION_LABELS, RESERVED_MODEL_KEYS } from '../constants';
+import { RELATION_TYPES } from './draftEdits';
+
+/** A model key a package adds to drafts, e.g. `media: true` from spatie/laravel-medialibrary. */
+export interface DraftExtension {
+    key: string;
+    /** Value inserted after the key, usually `true`. */
+    value: string;
+    /** What the key does and which package provides it. */
+    info: string;
+}
+
+export interface DraftCompletionData {
+    /** Models that relationships and `id:` columns can point at: the draft's and the app's. */
+    models: string[];
+    extensions: DraftExtension[];
+}
+
+const MODEL_KEY_INFO: Record<string, string> = {
+    relationships: 'belongsTo, hasMany, … → related models',
+    pivots: 'Extra columns on belongsToMany pivot tables',
+    group: 'Domain group, drawn as a box in the diagram',
+    seeder: 'Seeder category, row count and JSON fixtures',
+    softDeletes: 'Adds deleted_at and the SoftDeletes trait',
+    timestamps: 'false drops created_at / updated_at',
+    traits: 'Extra traits used by the model',
+};
+
+/** Keys whose value is a nested block: completing them starts the next, indented line. */
+const BLOCK_KEYS = ['models', 'actions', 'pages', 'routes', 'relationships', 'pivots', 'seeder'];
+
+const SEEDER_KEYS = ['category', 'count', 'json'];
+const SEEDER_CATEGORIES = ['essential', 'development', 'production'];
+const BOOLEANS = ['true', 'false'];
+
+/** A `key:` line; the key may be a model name. */
+const KEY_LINE = /^(\s*)([A-Za-z_][\w-]*):(?:\s|$)/;
+
+/**
+ * Package draft extensions from the Studio props: `packages[].hints.draft_extensions` entries that
+ * start with `key: value` ("media: true on model for HasMedia"; prose-only entries are skipped),
+ * plus the schema hints whose package is installed. The first entry for a key wins.
+ */
+export function draftExtensions(
+    packages: Array<{ name: string; hints: { draft_extensions?: string[] } | null }>,
+    schemaHints?: Record<string, { schema_key: string; description: string; requires_package: string; available: boolean }>,
+): DraftExtension[] {
+    const extensions = new Map<string, DraftExtension>();
+    for (const pkg of packages) {
+        for (const hint of pkg.hints?.draft_extensions ?? []) {
+            const match = /^([A-Za-z_]\w*):\s*(\S+)\s*(.*)$/.exec(hint.trim());
+            if (!match || extensions.has(match[1])) continue;
+            extensions.set(match[1], { key: match[1], value: match[2], info: [match[3], `(${pkg.name})`].filter(Boolean).join(' ') });
+        }
+    }
+    for (const hint of Object.values(schemaHints ?? {})) {
+        if (!hint.available || extensions.has(hint.schema_key)) continue;
+        extensions.set(hint.schema_key, { key: hint.schema_key, value: 'true', info: `${hint.description} (${hint.requires_package})` });
+    }
+    return [...extensions.values()];
+}
+
+/** Keys of the mappings enclosing a line indented by `indent`, outermost first; null inside lists. */
+function parentKeys(state: EditorState, lineNumber: number, indent: number): string[] | null {
+    const keys: string[] = [];
+    for (let n = lineNumber - 1; n >= 1 && indent > 0; n--) {
+        const text = state.doc.line(n).text;
+        const trimmed = text.trimStart();
+        if (!trimmed || trimmed.startsWith('#')) continue;
+        const lineIndent = text.length - trimmed.length;
+        if (lineIndent >= indent) continue;
+        const match = KEY_LINE.exec(text);
+        if (!match) return null;
+        keys.unshift(match[2]);
+        indent = lineIndent;
+    }
+    return keys;
+}
+
+function keyOption(key: string, indent: number, info?: string, value?: string): Completion {
+    const apply = BLOCK_KEYS.includes(key)
+        ? `${key}:\n${' '.repeat(indent + 2)}`
+        : key === 'traits'
+          ? `${key}:\n${' '.repeat(indent + 2)}- `
+          : `${key}: ${value ?? ''}`;
+    return { label: key, type: 'property', info, apply };
+}
+
+function keyOptions(path: string[], indent: number, data: DraftCompletionData): Completion[] {
+    const [section, , modelKey] = path;
+    if (path.length === 0) return DRAFT_TOP_LEVEL_KEYS.map((key) => keyOption(key, indent, undefined, key === 'schema_version' ? '"1.0"' : undefined));
+    if (section !== 'models') return [];
+    if (path.length === 2) {
+        return [
+            ...RESERVED_MODEL_KEYS.map((key) => keyOption(key, indent, MODEL_KEY_INFO[key])),
+            ...data.extensions.map((ext) => ({ ...keyOption(ext.key, indent, ext.info, ext.value), detail: 'package' })),
+        ];
+    }
+    if (path.length === 3 && modelKey === 'relationships') {
+        return RELATION_TYPES.map((relType) => ({ label: relType, type: 'keyword', info: RELATION_LABELS[relType], apply: `${relType}: ` }));
+    }
+    if (path.length === 3 && modelKey === 'seeder') return SEEDER_KEYS.map((key) => keyOption(key, indent));
+    return [];
+}
+
+function modelOptions(data: DraftCompletionData): Completion[] {
+    return [...new Set(data.models)].sort().map((model) => ({ label: model, type: 'class' }));
+}
+
+function constantOptions(values: string[]): Completion[] {
+    return values.map((value) => ({ label: value, type: 'constant' }));
+}
+
+/** Completions after `key: `, given the text typed so far in the value. */
+function valueCompletion(path: string[], key: string, value: string, pos: number, data: DraftCompletionData): CompletionResult | null {
+    const [section, , modelKey] = path;
+    if (section !== 'models') return null;
+    const result = (typed: string, options: Completion[]): CompletionResult | null =>
+        options.length > 0 ? { from: pos - typed.length, options, validFor: /^\w*$/ } : null;
+
+    if (path.length === 3 && modelKey === 'relationships') {
+        if (!(RELATION_TYPES as readonly string[]).includes(key)) return null;
+        // "User, Tag:tags": complete the entry after the last comma, not its alias.
+        const entry = value.slice(value.lastIndexOf(',') + 1).trimStart();
+        return entry.includes(':') ? null : result(entry, modelOptions(data));
+    }
+    if (path.length === 3 && modelKey === 'seeder') {
+        if (key === 'category') return result(value, constantOptions(SEEDER_CATEGORIES));
+        return key === 'json' ? result(value, constantOptions(BOOLEANS)) : null;
+    }
+    if (path.length !== 2) return null;
+
+    if (key === 'softDeletes' || key === 'timestamps') return result(value, constantOptions(BOOLEANS));
+    const extension = data.extensions.find((ext) => ext.key === key);
+    if (extension) return result(value, constantOptions([extension.value]));
+    if (RESERVED_MODEL_KEYS.includes(key)) return null;
+
+    // A column: "type[:params] modifier …", where the type may be `id:Model`.
+    const tokens = value.split(/\s+/);
+    const typed = tokens[tokens.length - 1];
+    if (tokens.length > 1) {
+        const modifiers = COLUMN_MODIFIERS.filter((m) => !tokens.includes(m));
+        return result(typed, modifiers.map((m) => ({ label: m, type: 'keyword' })));
+    }
+    const foreign = /^id:(\w*)$/.exec(typed);
+    if (foreign) return result(foreign[1], modelOptions(data));
+    return result(
+        typed,
+        COLUMN_TYPES.map((type) =>
+            type === 'id'
+                ? { label: 'id:', type: 'type', detail: 'Model', info: 'Foreign key to a model', apply: 'id:' }
+                : { label: type, type: 'type' },
+        ),
+    );
+}
+
+/**
+ * Completion for the draft YAML editor. The context comes from indentation: the keys of the
+ * enclosing lines tell a model's columns from its relationships, seeder or the top level.
+ * `data` is read on every request, so completions follow the current draft.
+ */
+export function draftCompletionSource(data: () => DraftCompletionData): CompletionSource {
+    return (context: CompletionContext) => {
+        const line = context.state.doc.lineAt(context.pos);
+        const before = line.text.slice(0, context.pos - line.from);
+        const indent = before.length - before.trimStart().length;
+        const path = parentKeys(context.state, line.number, indent);
+        if (!path) return null;
+
+        const key = /^\s*([\w-]*)$/.exec(before);
+        if (key) {
+            // Blank lines only complete on request (Ctrl-Space).
+            if (!key[1] && !context.explicit) return null;
+            const options = keyOptions(path, indent, data());
+            return options.length > 0 ? { from: context.pos - key[1].length, options, validFor: /^[\w-]*$/ } : null;
+        }
+        const pair = /^\s*([\w-]+):\s+(.*)$/.exec(before);
+        return pair ? valueCompletion(path, pair[1], pair[2], context.pos, data()) : null;
+    };
+}
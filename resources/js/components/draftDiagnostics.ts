@@ -0,0 +1,85 @@
+import { isMap, isNode, isScalar, isSeq, parseDocument, type Document } from 'yaml';
+
+/** An error from /architect/api/validate, with where it is when the server knows. */
+export interface ValidationDiagnostic {
+    message: string;
+    /** Dotted key path, e.g. `models.Post.relationships.belongsTo`; '' for the whole draft. */
+    path?: string;
+    /** 1-based line of a YAML syntax error. */
+    line?: number;
+    /** Server errors are always errors; the live check also reports warnings. */
+    severity?: 'error' | 'warning';
+}
+
+/** A diagnostic placed in the draft source (offsets into the YAML). */
+export interface DraftDiagnostic {
+    from: number;
+    to: number;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+/** Offsets of the line containing `pos`, without its line break. */
+function lineAt(source: string, pos: number): { from: number; to: number } {
+    const from = source.lastIndexOf('\n', pos - 1) + 1;
+    const end = source.indexOf('\n', pos);
+    return { from, to: end < 0 ? source.length : end };
+}
+
+/**
+ * Range of the key at a dotted path, through its value when that is a scalar (`belongsTo: Post`).
+ * Sequence items are addressed by index. Null when the draft no longer has the path.
+ */
+function pathRange(doc: Document, source: string, path: string): { from: number; to: number } | null {
+    if (path === '') return lineAt(source, 0);
+    let node: unknown = doc.contents;
+    let range: { from: number; to: number } | null = null;
+    for (const segment of path.split('.')) {
+        if (isMap(node)) {
+            const pair = node.items.find((p) => isScalar(p.key) && String(p.key.value) === segment);
+            const keyRange = pair && isScalar(pair.key) ? pair.key.range : undefined;
+            if (!pair || !keyRange) return null;
+            const valueEnd = isScalar(pair.value) && pair.value.range ? pair.value.range[1] : keyRange[1];
+            range = { from: keyRange[0], to: valueEnd };
+            node = pair.value;
+        } else if (isSeq(node) && /^\d+$/.test(segment)) {
+            const item = node.items[Number(segment)];
+            const itemRange = isNode(item) ? item.range : undefined;
+            if (!itemRange) return null;
+            range = { from: itemRange[0], to: itemRange[1] };
+            node = item;
+        } else {
+            return null;
+        }
+    }
+    return range;
+}
+
+/**
+ * Place validation errors in the current draft source, in the same order; an entry is null when
+ * the error has no location or its key is gone (e.g. fixed since the last validation). Paths are
+ * resolved against the current source, so locations follow edits made after validating.
+ * `parsed` saves parsing `source` again when the caller already has its document.
+ */
+export function locateDiagnostics(source: string, diagnostics: ValidationDiagnostic[], parsed?: Document): (DraftDiagnostic | null)[] {
+    const doc = parsed ?? (diagnostics.some((d) => d.path !== undefined) ? parseDocument(source) : null);
+    return diagnostics.map(({ message, path, line, severity = 'error' }) => {
+        let range: { from: number; to: number } | null = null;
+        if (path !== undefined && doc) {
+            range = pathRange(doc, source, path);
+        } else if (line !== undefined) {
+            const lines = source.split('\n');
+            if (line < 1 || line > lines.length) return null;
+            const from = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+            range = { from, to: from + lines[line - 1].length };
+        }
+        return range && { ...range, message, severity };
+    });
+}
+
+/** A YAML syntax error at `position`, marked up to the end of its line. */
+export function syntaxErrorDiagnostic(source: string, message: string, position: number): DraftDiagnostic {
+    const pos = Math.min(Math.max(position, 0), source.length);
+    const line = lineAt(source, pos);
+    return { from: pos < line.to ? pos : line.from, to: line.to, message, severity: 'error' };
+}
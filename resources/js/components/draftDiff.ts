@@ -0,0 +1,219 @@
+import type { Edge, Node } from 'reactflow';
+import { RESERVED_MODEL_KEYS } from '../constants';
+import { splitRelationEntries, RELATION_TYPES } from './draftEdits';
+import { modelToTableName, relationEdgeId, type DraftModels, type ParsedDraft } from './draftToFlow';
+import type { ModelColumn, ModelNodeData } from './ModelNode';
+
+export type DraftChangeKind = 'added' | 'removed' | 'modified';
+
+export interface ColumnChange {
+    kind: DraftChangeKind;
+    /** Definition at the last build (modified and removed columns). */
+    before?: string;
+    /** Definition in the current draft (added and modified columns). */
+    after?: string;
+}
+
+export interface ModelChange {
+    kind: DraftChangeKind;
+    /** Changed columns by name; empty for added and removed models. */
+    columns: Record<string, ColumnChange>;
+    /** Human-readable lines for tooltips: what changed and what the next build writes. */
+    notes: string[];
+}
+
+export interface DraftDiff {
+    /** Changed models by name; unchanged models are absent. */
+    models: Record<string, ModelChange>;
+    /** Added and removed relationships by edge id (see relationEdgeId). */
+    relations: Record<string, DraftChangeKind>;
+    /** The current draft plus everything removed since the build, so removed parts can still be drawn. */
+    merged: ParsedDraft;
+}
+
+/** Stroke colors for changed edges (green / amber / red). */
+export const CHANGE_COLORS: Record<DraftChangeKind, string> = {
+    added: '#16a34a',
+    modified: '#d97706',
+    removed: '#dc2626',
+};
+
+/** Model keys whose changes affect generated code but are neither columns nor relationships. */
+const SETTING_KEYS = RESERVED_MODEL_KEYS.filter((k) => k !== 'relationships' && k !== 'group');
+
+function columnsOf(def: DraftModels[string] | undefined): Record<string, string> {
+    const columns: Record<string, string> = {};
+    for (const [key, value] of Object.entries(def ?? {})) {
+        if (!RESERVED_MODEL_KEYS.includes(key) && typeof value === 'string') columns[key] = value;
+    }
+    return columns;
+}
+
+/** `relType` → entries ("User:author") of a model's relationships. */
+function relationsOf(def: DraftModels[string] | undefined): Record<string, string[]> {
+    const relations: Record<string, string[]> = {};
+    for (const relType of RELATION_TYPES) {
+        relations[relType] = splitRelationEntries(def?.relationships?.[relType]);
+    }
+    return relations;
+}
+
+function migrationName(table: string, generated: Record<string, string>): string {
+    return generated[table] ?? `the create_${table}_table migration`;
+}
+
+/**
+ * Compare the draft of the last build with the current one. `built` is null before the first
+ * build, which makes every model "added". `generated` maps table names to the migration file
+ * the last build wrote for them, so tooltips can name the file a rebuild rewrites.
+ */
+export function diffDrafts(built: ParsedDraft | null, current: ParsedDraft, generated: Record<string, string> = {}): DraftDiff {
+    const before = built?.models ?? {};
+    const after = current.models ?? {};
+    const models: Record<string, ModelChange> = {};
+    const relations: Record<string, DraftChangeKind> = {};
+    const merged: DraftModels = {};
+
+    for (const name of Object.keys(after)) {
+        const table = modelToTableName(name);
+        const def = after[name] ?? {};
+        if (!(name in before)) {
+            models[name] = {
+                kind: 'added',
+                columns: {},
+                notes: [`New model: the next build creates app/Models/${name}.php and a create_${table}_table migration.`],
+            };
+            for (const [relType, entries] of Object.entries(relationsOf(def))) {
+                for (const entry of entries) relations[relationEdgeId(name, relType, entry)] = 'added';
+            }
+            merged[name] = def;
+            continue;
+        }
+
+        const oldDef = before[name] ?? {};
+        const oldColumns = columnsOf(oldDef);
+        const newColumns = columnsOf(def);
+        const columns: Record<string, ColumnChange> = {};
+        const notes: string[] = [];
+        for (const [column, definition] of Object.entries(newColumns)) {
+            if (!(column in oldColumns)) {
+                columns[column] = { kind: 'added', after: definition };
+                notes.push(`+ ${column}: ${definition}`);
+            } else if (oldColumns[column] !== definition) {
+                columns[column] = { kind: 'modified', before: oldColumns[column], after: definition };
+                notes.push(`~ ${column}: ${oldColumns[column]} → ${definition}`);
+            }
+        }
+        const removedColumns: Record<string, string> = {};
+        for (const [column, definition] of Object.entries(oldColumns)) {
+            if (column in newColumns) continue;
+            columns[column] = { kind: 'removed', before: definition };
+            removedColumns[column] = definition;
+            notes.push(`− ${column}: ${definition}`);
+        }
+
+        const oldRelations = relationsOf(oldDef);
+        const newRelations = relationsOf(def);
+        const mergedRelationships: Record<string, string> = {};
+        for (const relType of RELATION_TYPES) {
+            const added = newRelations[relType].filter((e) => !oldRelations[relType].includes(e));
+            const removed = oldRelations[relType].filter((e) => !newRelations[relType].includes(e));
+            for (const entry of added) {
+                relations[relationEdgeId(name, relType, entry)] = 'added';
+                notes.push(`+ ${relType} ${entry}`);
+            }
+            for (const entry of removed) {
+                relations[relationEdgeId(name, relType, entry)] = 'removed';
+                notes.push(`− ${relType} ${entry}`);
+            }
+            const all = [...newRelations[relType], ...removed];
+            if (all.length > 0) mergedRelationships[relType] = all.join(', ');
+        }
+
+        const changedSettings = SETTING_KEYS.filter((k) => JSON.stringify(oldDef[k]) !== JSON.stringify(def[k]));
+        if (changedSettings.length > 0) notes.push(`Changed: ${changedSettings.join(', ')}`);
+
+        merged[name] = {
+            ...def,
+            ...removedColumns,
+            ...(Object.keys(mergedRelationships).length > 0 ? { relationships: { ...def.relationships, ...mergedRelationships } } : {}),
+        };
+        if (notes.length > 0) {
+            notes.push(`The next build rewrites app/Models/${name}.php and ${migrationName(table, generated)}.`);
+            models[name] = { kind: 'modified', columns, notes };
+        }
+    }
+
+    for (const name of Object.keys(before)) {
+        if (name in after) continue;
+        const def = before[name] ?? {};
+        models[name] = {
+            kind: 'removed',
+            columns: {},
+            notes: ['Removed from the draft: the next build no longer generates it, but existing files are left in place.'],
+        };
+        for (const [relType, entries] of Object.entries(relationsOf(def))) {
+            for (const entry of entries) relations[relationEdgeId(name, relType, entry)] = 'removed';
+        }
+        merged[name] = def;
+    }
+
+    return { models, relations, merged: { ...current, models: merged } };
+}
+
+/** Change of an edge: its own, or the shared change of every relation it stands for (pivot and collapsed-group edges). */
+function edgeChange(edge: Edge, diff: DraftDiff): DraftChangeKind | undefined {
+    const own = diff.relations[edge.id];
+    if (own) return own;
+    if (edge.data?.relType === 'foreignKey' && !edge.source.startsWith('pivot:')) {
+        // Plain `id:Model` columns: the edge changes with its column (or with the inverse it is paired with).
+        const column = edge.sourceHandle?.replace(/^col:/, '') ?? '';
+        const change = diff.models[edge.source];
+        const inverse = Array.isArray(edge.data?.relationIds) ? diff.relations[edge.data.relationIds[1]] : undefined;
+        return (change?.kind === 'modified' ? change.columns[column]?.kind : change?.kind) ?? inverse;
+    }
+    const ids: string[] = Array.isArray(edge.data?.relationIds) ? edge.data.relationIds : [];
+    const kinds = new Set(ids.map((id) => diff.relations[id]));
+    const [kind] = kinds;
+    return kinds.size === 1 ? kind : undefined;
+}
+
+/**
+ * Decorate a flow built from `diff.merged`: model nodes get `data.change` and per-column changes,
+ * changed edges are colored (removed ones dashed) and labelled with their change.
+ */
+export function applyDraftDiff(nodes: Node[], edges: Edge[], diff: DraftDiff): { nodes: Node[]; edges: Edge[] } {
+    const pivotChanges = new Map<string, DraftChangeKind | undefined>();
+    for (const edge of edges) {
+        if (edge.source.startsWith('pivot:')) pivotChanges.set(edge.source, edgeChange(edge, diff));
+    }
+    return {
+        nodes: nodes.map((node) => {
+            if (node.type !== 'model') return node;
+            const data = node.data as ModelNodeData;
+            const change: ModelChange | undefined = data.pivot
+                ? (() => {
+                      const kind = pivotChanges.get(node.id);
+                      return kind ? { kind, columns: {}, notes: [] } : undefined;
+                  })()
+                : diff.models[node.id];
+            if (!change) return node;
+            const columns: ModelColumn[] = data.columns.map((c) => (change.columns[c.name] ? { ...c, change: change.columns[c.name] } : c));
+            return { ...node, data: { ...data, columns, change: { kind: change.kind, notes: change.notes } } };
+        }),
+        edges: edges.map((edge) => {
+            const kind = edgeChange(edge, diff);
+            if (!kind) return edge;
+            return {
+                ...edge,
+                label: edge.label ? `${edge.label} · ${kind}` : kind,
+                style: {
+                    ...edge.style,
+                    stroke: CHANGE_COLORS[kind],
+                    strokeWidth: 2,
+                    ...(kind === 'removed' ? { strokeDasharray: '6 4' } : {}),
+                },
+            };
+        }),
+    };
+}
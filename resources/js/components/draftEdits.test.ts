@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+    addColumn,
+    addModel,
+    addRelationship,
+    copyModels,
+    deleteModel,
+    pasteModels,
+    removeColumn,
+    renameColumn,
+    renameModel,
+    setColumnDefinition,
+} from './draftEdits';
+
+const draft = `# Blog
+models:
+  User:
+    name: string
+    email: 'string:255 unique'
+    traits:
+    - HasUuids
+
+  Post:
+    title: string:400   # headline
+    meta: { name: author, type: User }
+    user_id: id:User
+    relationships:
+      belongsTo: User
+
+actions:
+  CreatePost:
+    model: Post
+    params:
+      - { name: author, type: User }
+`;
+
+/** Lines of `after` that are not in `before`, and lines of `before` that are gone. */
+function lineDiff(before: string, after: string): { added: string[]; removed: string[] } {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    return { added: b.filter((line) => !a.includes(line)), removed: a.filter((line) => !b.includes(line)) };
+}
+
+describe('draft edits', () => {
+    it('adds a column without touching the other lines', () => {
+        const out = addColumn(draft, 'Post', 'body', 'text');
+        expect(lineDiff(draft, out)).toEqual({ added: ['    body: text'], removed: [] });
+        expect(out).toContain('    user_id: id:User\n    body: text\n    relationships:');
+    });
+
+    it('renames and redefines a column in place, keeping its quotes', () => {
+        expect(lineDiff(draft, renameColumn(draft, 'Post', 'title', 'headline'))).toEqual({
+            added: ['    headline: string:400   # headline'],
+            removed: ['    title: string:400   # headline'],
+        });
+        expect(lineDiff(draft, setColumnDefinition(draft, 'User', 'email', 'string:320 unique'))).toEqual({
+            added: ["    email: 'string:320 unique'"],
+            removed: ["    email: 'string:255 unique'"],
+        });
+    });
+
+    it('removes only the column lines', () => {
+        expect(lineDiff(draft, removeColumn(draft, 'Post', 'meta'))).toEqual({ added: [], removed: ['    meta: { name: author, type: User }'] });
+    });
+
+    it('appends relationships to the existing entry', () => {
+        const out = addRelationship(draft, 'Post', 'belongsTo', 'User:editor');
+        expect(lineDiff(draft, out)).toEqual({ added: ['      belongsTo: User, User:editor'], removed: ['      belongsTo: User'] });
+        expect(addRelationship(draft, 'Post', 'belongsTo', 'User')).toBe(draft);
+    });
+
+    it('adds a relationships mapping in the indentation of the draft', () => {
+        const out = addRelationship(draft, 'User', 'hasMany', 'Post');
+        expect(out).toContain('    - HasUuids\n    relationships:\n      hasMany: Post\n\n  Post:');
+        expect(lineDiff(draft, out).removed).toEqual([]);
+    });
+
+    it('turns an empty model into a block mapping', () => {
+        const source = 'models:\n    Tag: {}\n    Post:\n        title: string\n';
+        expect(addColumn(source, 'Tag', 'name', 'string')).toBe('models:\n    Tag:\n        name: string\n    Post:\n        title: string\n');
+    });
+
+    it('adds a model after the last one, set apart like the others', () => {
+        const out = addModel(draft, 'Tag', { name: 'string' });
+        expect(out).toContain('      belongsTo: User\n\n  Tag:\n    name: string\n\nactions:');
+        expect(lineDiff(draft, out).removed).toEqual([]);
+    });
+
+    it('renames a model and its references without reformatting', () => {
+        const { source, changes } = renameModel(draft, 'User', 'Author');
+        expect(lineDiff(draft, source)).toEqual({
+            added: ['  Author:', '    author_id: id:Author', '      belongsTo: Author', '      - { name: author, type: Author }'],
+            removed: ['  User:', '    user_id: id:User', '      belongsTo: User', '      - { name: author, type: User }'],
+        });
+        expect(changes.map((c) => c.path)).toEqual([
+            'models.User',
+            'models.Post.relationships.belongsTo',
+            'models.Post.user_id',
+            'models.Post.user_id',
+            'actions.CreatePost.params.0.type',
+        ]);
+    });
+
+    it('deletes a model with its references and the blank line before it', () => {
+        const { source } = deleteModel(draft, 'Post', { relations: true, foreignKeys: true, actionsAndPages: true });
+        expect(source).toBe("# Blog\nmodels:\n  User:\n    name: string\n    email: 'string:255 unique'\n    traits:\n    - HasUuids\n\nactions: {}\n");
+        const { source: kept } = deleteModel(draft, 'User', { relations: true, foreignKeys: true, actionsAndPages: false });
+        expect(kept).toBe(
+            '# Blog\nmodels:\n  Post:\n    title: string:400   # headline\n    meta: { name: author, type: User }\n\nactions:\n' +
+                '  CreatePost:\n    model: Post\n    params:\n      - { name: author, type: User }\n',
+        );
+    });
+
+    it('copies models as written and pastes them after the last model', () => {
+        const clipboard = copyModels(draft, ['User']);
+        expect(clipboard).toBe("models:\n  User:\n    name: string\n    email: 'string:255 unique'\n    traits:\n    - HasUuids\n");
+        const pasted = pasteModels('models:\n    Post:\n        title: string\n', clipboard, true);
+        expect(pasted.source).toBe(
+            "models:\n    Post:\n        title: string\n    User:\n        name: string\n        email: 'string:255 unique'\n        traits:\n        - HasUuids\n",
+        );
+    });
+
+    it('renames taken names and strips outside relations when pasting', () => {
+        const clipboard = copyModels(draft, ['Post']);
+        const pasted = pasteModels(draft, clipboard, false);
+        expect(pasted.renamed).toEqual({ Post: 'Post2' });
+        expect(pasted.outside).toEqual(['User']);
+        expect(pasted.source).toBe(`${draft.replace('\nactions:', '\n  Post2:\n    title: string:400   # headline\n    meta: { name: author, type: User }\n\nactions:')}`);
+    });
+});
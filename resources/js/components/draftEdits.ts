@@ -0,0 +1,799 @@
+import { isMap, isNode, isScalar, isSeq, parseDocument, Scalar, stringify, visit, type Document, type Pair, type ToStringOptions, type YAMLMap } from 'yaml';
+import { RESERVED_MODEL_KEYS } from '../constants';
+import { formatColumnDefinition, parseColumnDefinition } from './columnFormat';
+
+export const RELATION_TYPES = ['belongsTo', 'hasMany', 'hasOne', 'belongsToMany', 'morphTo', 'morphMany'] as const;
+
+export type RelationType = (typeof RELATION_TYPES)[number];
+
+/**
+ * Laravel-style default inverse of a relation (Post belongsTo User ↔ User hasMany Post). Morph
+ * relations have none: morphTo takes a morph name (`commentable`), not the related model.
+ */
+export const INVERSE_RELATION: Partial<Record<RelationType, RelationType>> = {
+    belongsTo: 'hasMany',
+    hasMany: 'belongsTo',
+    hasOne: 'belongsTo',
+    belongsToMany: 'belongsToMany',
+};
+
+/** A replacement of `source.slice(from, to)` with `insert`. */
+interface TextEdit {
+    from: number;
+    to: number;
+    insert: string;
+}
+
+/**
+ * Draft YAML being edited. The parsed document only locates nodes; changes are spliced into the
+ * original text, so everything they do not touch keeps its comments, spacing and quoting.
+ */
+interface DraftText {
+    source: string;
+    doc: Document;
+    edits: TextEdit[];
+}
+
+/** Parse draft YAML for editing; an empty draft starts as `models: {}`. Throws on invalid YAML. */
+function openDraft(source: string): DraftText {
+    const text = source.trim() ? source : 'models: {}\n';
+    const doc = parseDocument(text);
+    if (doc.errors.length > 0) {
+        throw doc.errors[0];
+    }
+    if (!isMap(doc.contents)) {
+        throw new Error('Draft must be a YAML object.');
+    }
+    return { source: text, doc, edits: [] };
+}
+
+/** `text` (starting at `offset` in the draft) with `edits` applied, last first so offsets hold. */
+function applyEdits(text: string, edits: TextEdit[], offset = 0): string {
+    const order = edits.map((edit, i) => ({ edit, i })).sort((a, b) => b.edit.from - a.edit.from || b.i - a.i);
+    let out = text;
+    for (const { edit } of order) {
+        out = out.slice(0, edit.from - offset) + edit.insert + out.slice(edit.to - offset);
+    }
+    return out;
+}
+
+function draftResult(draft: DraftText): string {
+    return applyEdits(draft.source, draft.edits);
+}
+
+/** Edited text of `from`–`to`; the edits inside it are taken off the draft's list. */
+function takeText(draft: DraftText, from: number, to: number): string {
+    const inside = draft.edits.filter((edit) => edit.from >= from && edit.to <= to);
+    draft.edits = draft.edits.filter((edit) => !inside.includes(edit));
+    return applyEdits(draft.source.slice(from, to), inside, from);
+}
+
+/** Indentation step of `source`: its smallest indent, or two spaces when nothing is indented. */
+function detectIndent(source: string): number {
+    let indent = 0;
+    for (const line of source.split('\n')) {
+        const text = line.trimStart();
+        const n = line.length - text.length;
+        if (text && !text.startsWith('#') && n > 0 && (indent === 0 || n < indent)) indent = n;
+    }
+    return indent || 2;
+}
+
+/**
+ * Layout for YAML added to `source`, in its style: its indentation step, sequences flush under
+ * their key or indented, flow collections with or without padding (`{ a: b }`), no line wrapping.
+ */
+function draftStyle(source: string): ToStringOptions {
+    return {
+        indent: detectIndent(source),
+        indentSeq: !/^( *)[^\s#-][^\n]*:[ \t]*\n\1- /m.test(source),
+        flowCollectionPadding: /[[{] [^\s\]}]/.test(source),
+        lineWidth: 0,
+    };
+}
+
+function lineStart(source: string, pos: number): number {
+    return source.lastIndexOf('\n', pos - 1) + 1;
+}
+
+/** Offset after the line break ending the line `pos` is on (or the end of the text). */
+function lineEnd(source: string, pos: number): number {
+    if (pos > 0 && source[pos - 1] === '\n') return pos;
+    const n = source.indexOf('\n', pos);
+    return n < 0 ? source.length : n + 1;
+}
+
+/** Lines of `text` moved `by` columns, left when negative; blank lines are left empty. */
+function shiftLines(text: string, by: number): string {
+    return text
+        .split('\n')
+        .map((line) => {
+            const indent = line.length - line.trimStart().length;
+            if (indent === line.length) return '';
+            return by >= 0 ? ' '.repeat(by) + line : line.slice(Math.min(-by, indent));
+        })
+        .join('\n');
+}
+
+/** `text` indented in steps of `to` spaces instead of `from`. */
+function restepLines(text: string, from: number, to: number): string {
+    if (from === to) return text;
+    return text.replace(/^( +)/gm, (indent) => ' '.repeat(Math.round((indent.length * to) / from)));
+}
+
+function keyStart(pair: Pair): number {
+    return (pair.key as Scalar).range![0];
+}
+
+/** Offset after a pair's value, or after its key when it has none. */
+function valueEnd(pair: Pair): number {
+    return (isNode(pair.value) ? pair.value : (pair.key as Scalar)).range![1];
+}
+
+function keyColumn(source: string, pair: Pair): number {
+    return keyStart(pair) - lineStart(source, keyStart(pair));
+}
+
+/** Offset just after the `:` of a pair. */
+function afterColon(source: string, pair: Pair): number {
+    return source.indexOf(':', (pair.key as Scalar).range![1]) + 1;
+}
+
+/** Whether `pos` lies inside a flow collection (`{ … }` or `[ … ]`). */
+function inFlow(doc: Document, pos: number): boolean {
+    let found = false;
+    visit(doc, {
+        Collection(_, node) {
+            if (node.flow && node.range && node.range[0] < pos && pos < node.range[1]) found = true;
+        },
+    });
+    return found;
+}
+
+/** A missing value or one left empty (`User:` with nothing after it). */
+function isEmpty(node: unknown): boolean {
+    return node === null || node === undefined || (isScalar(node) && node.value === null);
+}
+
+/** `value` as a YAML scalar in the quote style of `like`; plain where YAML allows it. */
+function scalarSource(value: string, like?: Scalar): string {
+    const node = new Scalar(value);
+    if (like?.type === Scalar.QUOTE_DOUBLE || like?.type === Scalar.QUOTE_SINGLE) node.type = like.type;
+    return stringify(node, { lineWidth: 0 }).trimEnd();
+}
+
+/** Replace a scalar key or value in place; an empty value gets its text after the colon. */
+function replaceScalar(draft: DraftText, node: Scalar, value: string): void {
+    const [from, to] = node.range!;
+    const text = scalarSource(value, node);
+    draft.edits.push({ from, to, insert: from === to ? ` ${text}` : text });
+}
+
+function renamePairKey(draft: DraftText, pair: Pair, name: string): void {
+    replaceScalar(draft, pair.key as Scalar, name);
+}
+
+/** Give a pair a string value. */
+function setPairValue(draft: DraftText, pair: Pair, value: string): void {
+    if (isScalar(pair.value)) {
+        replaceScalar(draft, pair.value, value);
+        return;
+    }
+    let to = valueEnd(pair);
+    while (draft.source[to - 1] === '\n') to--;
+    draft.edits.push({ from: afterColon(draft.source, pair), to, insert: ` ${scalarSource(value)}` });
+}
+
+/**
+ * Insert pair lines (`text`, written at column 0) into the mapping of `owner`, or of the
+ * document when it is null: before `before` and the comments above it, or after the last pair.
+ * An empty value gets them as a block mapping.
+ */
+function insertPairText(draft: DraftText, owner: Pair | null, text: string, before?: Pair): void {
+    const { source } = draft;
+    const map = owner ? owner.value : draft.doc.contents;
+    if (isMap(map) && !map.flow && map.items.length > 0) {
+        let insert = shiftLines(text, keyColumn(source, map.items[0]));
+        let at: number;
+        if (before) {
+            at = lineStart(source, keyStart(before));
+            while (at > 0 && /^\s*(#.*)?$/.test(source.slice(lineStart(source, at - 1), at - 1))) {
+                at = lineStart(source, at - 1);
+            }
+        } else {
+            const last = map.items[map.items.length - 1];
+            at = lineEnd(source, valueEnd(last));
+            // Models set apart by blank lines keep that spacing.
+            if (map.items.length > 1 && (last.key as Scalar).spaceBefore) insert = `\n${insert}`;
+        }
+        if (at === source.length && !source.endsWith('\n')) insert = `\n${insert}`;
+        draft.edits.push({ from: at, to: at, insert });
+        return;
+    }
+    const body = shiftLines(text, owner ? keyColumn(source, owner) + detectIndent(source) : 0).trimEnd();
+    if (!owner) {
+        const [from, to] = (map as YAMLMap).range!;
+        draft.edits.push({ from, to, insert: `${body}\n` });
+        return;
+    }
+    draft.edits.push({ from: afterColon(source, owner), to: valueEnd(owner), insert: `\n${body}` });
+}
+
+/**
+ * Insert `key: value` into the mapping of `owner` (the document when null), before `before` or
+ * last. Flow mappings get it inline (`{ name: author, type: User }`); block ones get new lines
+ * in the draft's style.
+ */
+function insertPair(draft: DraftText, owner: Pair | null, key: string, value: unknown, before?: Pair): void {
+    const map = owner ? owner.value : draft.doc.contents;
+    const style = draftStyle(draft.source);
+    if (isMap(map) && map.flow && (map.items.length > 0 || inFlow(draft.doc, map.range![0]))) {
+        const entry = stringify({ [key]: value }, { ...style, collectionStyle: 'flow' }).trim().slice(1, -1).trim();
+        if (before) {
+            draft.edits.push({ from: keyStart(before), to: keyStart(before), insert: `${entry}, ` });
+        } else if (map.items.length > 0) {
+            const at = valueEnd(map.items[map.items.length - 1]);
+            draft.edits.push({ from: at, to: at, insert: `, ${entry}` });
+        } else {
+            const pad = style.flowCollectionPadding ? ' ' : '';
+            draft.edits.push({ from: map.range![0], to: map.range![1], insert: `{${pad}${entry}${pad}}` });
+        }
+        return;
+    }
+    insertPairText(draft, owner, stringify({ [key]: value }, style), before);
+}
+
+/**
+ * Remove pairs from the mapping of `owner`. Block pairs go with their lines and the blank lines
+ * that set them apart; a flow mapping is rewritten from the pairs it keeps. A mapping left with
+ * no pairs becomes `{}`.
+ */
+function removePairs(draft: DraftText, owner: Pair, pairs: Pair[]): void {
+    const { source } = draft;
+    const map = owner.value as YAMLMap;
+    if (pairs.length === 0) return;
+    const kept = map.items.filter((pair) => !pairs.includes(pair));
+    if (map.flow) {
+        const [from, to] = map.range!;
+        const pad = source[from + 1] === ' ' ? ' ' : '';
+        const entries = kept.map((pair) => takeText(draft, keyStart(pair), valueEnd(pair)));
+        takeText(draft, from, to);
+        draft.edits.push({ from, to, insert: entries.length > 0 ? `{${pad}${entries.join(', ')}${pad}}` : '{}' });
+        return;
+    }
+    if (kept.length === 0) {
+        const from = afterColon(source, owner);
+        const to = lineEnd(source, valueEnd(map.items[map.items.length - 1]));
+        takeText(draft, from, to);
+        draft.edits.push({ from, to, insert: source[to - 1] === '\n' ? ' {}\n' : ' {}' });
+        return;
+    }
+    const blank = (from: number, to: number) => source.slice(from, to).trim() === '';
+    const spans = pairs
+        .map((pair) => {
+            let from = lineStart(source, keyStart(pair));
+            let to = lineEnd(source, valueEnd(pair));
+            if ((pair.key as Scalar).spaceBefore) {
+                while (from > 0 && blank(lineStart(source, from - 1), from)) from = lineStart(source, from - 1);
+            } else if (pair === map.items[0]) {
+                while (to < source.length && blank(to, lineEnd(source, to + 1))) to = lineEnd(source, to + 1);
+            }
+            return [from, to];
+        })
+        .sort((a, b) => a[0] - b[0]);
+    const merged: number[][] = [];
+    for (const span of spans) {
+        const last = merged[merged.length - 1];
+        if (last && span[0] <= last[1]) last[1] = Math.max(last[1], span[1]);
+        else merged.push(span);
+    }
+    for (const [from, to] of merged) {
+        takeText(draft, from, to);
+        draft.edits.push({ from, to, insert: '' });
+    }
+}
+
+function pairKey(pair: Pair): unknown {
+    return isScalar(pair.key) ? pair.key.value : pair.key;
+}
+
+function mapPairs(node: unknown): Pair[] {
+    return isMap(node) ? node.items : [];
+}
+
+/** A top-level pair of the draft (`models`, `actions`, …). */
+function rootPair(draft: DraftText, key: string): Pair | undefined {
+    return mapPairs(draft.doc.contents).find((pair) => pairKey(pair) === key);
+}
+
+function modelPairs(draft: DraftText): Pair[] {
+    return mapPairs(rootPair(draft, 'models')?.value);
+}
+
+/** Set `path` to `value`, adding the mappings missing on the way. */
+function setIn(draft: DraftText, path: string[], value: unknown): void {
+    let owner: Pair | null = null;
+    for (let i = 0; i < path.length; i++) {
+        const map: unknown = owner ? owner.value : draft.doc.contents;
+        if (!isMap(map) && !isEmpty(map)) {
+            throw new Error(`"${path.slice(0, i).join('.')}" is not a mapping in the draft.`);
+        }
+        const pair = mapPairs(map).find((p) => pairKey(p) === path[i]);
+        if (!pair) {
+            insertPair(draft, owner, path[i], path.slice(i + 1).reduceRight<unknown>((v, key) => ({ [key]: v }), value));
+            return;
+        }
+        owner = pair;
+    }
+    if (typeof value !== 'string') throw new Error(`"${path.join('.')}" is already in the draft.`);
+    setPairValue(draft, owner!, value);
+}
+
+/** A pair's text from its key to the end of its value, moved to column 0. */
+function pairSource(draft: DraftText, pair: Pair): string {
+    const { source } = draft;
+    const start = keyStart(pair);
+    const end = inFlow(draft.doc, start) ? valueEnd(pair) : lineEnd(source, valueEnd(pair));
+    const column = start - lineStart(source, start);
+    const text = shiftLines(' '.repeat(column) + source.slice(start, end), -column);
+    return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+/** Comma-separated relation string ("Post, User:author") → trimmed entries. */
+export function splitRelationEntries(value: unknown): string[] {
+    if (typeof value !== 'string') return [];
+    return value
+        .split(',')
+        .map((t) => t.trim())
+        .filter(Boolean);
+}
+
+/** "User" or "User:author" from a target model and optional alias (method name). */
+export function relationEntry(target: string, alias?: string): string {
+    const a = alias?.trim();
+    return a ? `${target}:${a}` : target;
+}
+
+/** Relations whose alias names the foreign key (`belongsTo: User:author` ↔ `hasMany: Post:author`). */
+const FOREIGN_KEY_RELATIONS: RelationType[] = ['belongsTo', 'hasMany', 'hasOne'];
+
+/**
+ * Entry for the inverse of `relType: <target>:<alias>` declared on `source`. The alias is kept
+ * between belongsTo and hasMany/hasOne, where both sides name the same foreign key; elsewhere it
+ * is a method name of one side only.
+ */
+export function inverseRelationEntry(source: string, relType: RelationType, inverseType: RelationType, alias?: string): string {
+    const keepsAlias = FOREIGN_KEY_RELATIONS.includes(relType) && FOREIGN_KEY_RELATIONS.includes(inverseType);
+    return relationEntry(source, keepsAlias ? alias : undefined);
+}
+
+/**
+ * Add `entry` to `models.<model>.relationships.<relType>`, appending to an existing
+ * comma-separated list. Entries already present are left alone; a model or `relationships`
+ * key without a value gets a mapping.
+ */
+export function addRelationship(source: string, model: string, relType: RelationType, entry: string): string {
+    const draft = openDraft(source);
+    const path = ['models', model, 'relationships', relType];
+    const entries = splitRelationEntries(draft.doc.getIn(path));
+    if (entries.includes(entry)) return source;
+    setIn(draft, path, [...entries, entry].join(', '));
+    return draftResult(draft);
+}
+
+/** Add a model under `models` (e.g. one imported from the codebase); throws when it is already defined. */
+export function addModel(source: string, model: string, definition: Record<string, unknown>): string {
+    const draft = openDraft(source);
+    if (draft.doc.hasIn(['models', model])) {
+        throw new Error(`Model "${model}" is already in the draft.`);
+    }
+    setIn(draft, ['models', model], definition);
+    return draftResult(draft);
+}
+
+/** The `models.<model>` pair; throws when the model is missing or not a mapping. */
+function modelPair(draft: DraftText, model: string): Pair {
+    const pair = modelPairs(draft).find((p) => pairKey(p) === model);
+    if (!pair || !(isMap(pair.value) || isEmpty(pair.value))) {
+        throw new Error(`Model "${model}" is not defined as a mapping in the draft.`);
+    }
+    return pair;
+}
+
+function columnPair(own: Pair, column: string): Pair | undefined {
+    return mapPairs(own.value).find((pair) => pairKey(pair) === column);
+}
+
+/**
+ * Add a column to a model. It is inserted after the last existing column, before
+ * reserved keys such as `relationships`, so the model keeps its usual shape.
+ */
+export function addColumn(source: string, model: string, column: string, definition: string): string {
+    const draft = openDraft(source);
+    const own = modelPair(draft, model);
+    if (columnPair(own, column)) {
+        throw new Error(`${model} already has a "${column}" column.`);
+    }
+    const firstReserved = mapPairs(own.value).find((pair) => RESERVED_MODEL_KEYS.includes(String(pairKey(pair))));
+    insertPair(draft, own, column, definition, firstReserved);
+    return draftResult(draft);
+}
+
+/** Rename a column in place (its position and definition are kept). */
+export function renameColumn(source: string, model: string, column: string, newName: string): string {
+    if (column === newName) return source;
+    const draft = openDraft(source);
+    const own = modelPair(draft, model);
+    const pair = columnPair(own, column);
+    if (!pair) throw new Error(`${model} has no "${column}" column.`);
+    if (columnPair(own, newName)) throw new Error(`${model} already has a "${newName}" column.`);
+    renamePairKey(draft, pair, newName);
+    return draftResult(draft);
+}
+
+/** Replace a column's definition string (type, param and modifiers). */
+export function setColumnDefinition(source: string, model: string, column: string, definition: string): string {
+    const draft = openDraft(source);
+    const pair = columnPair(modelPair(draft, model), column);
+    if (!pair) throw new Error(`${model} has no "${column}" column.`);
+    setPairValue(draft, pair, definition);
+    return draftResult(draft);
+}
+
+export function removeColumn(source: string, model: string, column: string): string {
+    const draft = openDraft(source);
+    const own = modelPair(draft, model);
+    const pair = columnPair(own, column);
+    if (!pair) return source;
+    removePairs(draft, own, [pair]);
+    return draftResult(draft);
+}
+
+/** One reference a model refactoring changes, listed in its preview. */
+export interface DraftReferenceChange {
+    /** Dotted path of the changed key, e.g. `models.Comment.relationships.belongsTo`. */
+    path: string;
+    before: string;
+    /** New value; null when the key is removed. */
+    after: string | null;
+}
+
+/** A refactored draft plus every reference the refactoring changed. */
+export interface DraftRefactoring {
+    source: string;
+    changes: DraftReferenceChange[];
+}
+
+/** What else goes when a model is deleted; references left in place dangle until fixed by hand. */
+export interface DeleteModelOptions {
+    /** Relationships and `pivots` settings on other models that point at the model. */
+    relations: boolean;
+    /** `id:Model` foreign key columns on other models. */
+    foreignKeys: boolean;
+    /** Actions that use the model (as `model`, `return` or a param) and its page. */
+    actionsAndPages: boolean;
+}
+
+function snakeCase(name: string): string {
+    return name.replace(/([A-Z])/g, '_$1').toLowerCase().replace(/^_/, '');
+}
+
+function scalarText(node: unknown): string | undefined {
+    return isScalar(node) && typeof node.value === 'string' ? node.value : undefined;
+}
+
+/** Text of a value for previews; mappings and lists are elided. */
+function nodeText(node: unknown): string {
+    return isScalar(node) ? String(node.value) : '{…}';
+}
+
+/** Relationship entries with `target` swapped for `to` (aliases kept), or dropped when `to` is null. */
+function retargetEntries(value: string, target: string, to: string | null): string[] {
+    return splitRelationEntries(value).flatMap((entry) => {
+        const [model, ...alias] = entry.split(':');
+        if (model.trim() !== target) return [entry];
+        return to === null ? [] : [[to, ...alias].join(':')];
+    });
+}
+
+/** Whether an action uses `model` as its model, return type or a param (`Post` or `{ type: Post }`). */
+function actionUsesModel(action: unknown, model: string): boolean {
+    if (!isMap(action)) return false;
+    if (scalarText(action.get('model', true)) === model || scalarText(action.get('return', true)) === model) return true;
+    const params = action.get('params', true);
+    return isSeq(params) && params.items.some((p) => scalarText(p) === model || (isMap(p) && scalarText(p.get('type', true)) === model));
+}
+
+/**
+ * Rename a model and every reference to it: relationship entries (aliases kept), `pivots` keys,
+ * `id:Model` columns, the conventional foreign key column (`post_id` → `article_id`) where it
+ * points at the model, actions' `model`/`return`/`params` and the model's page. Throws when the
+ * model is missing or the new name is taken or not StudlyCase.
+ */
+export function renameModel(source: string, from: string, to: string): DraftRefactoring {
+    const name = to.trim();
+    if (!/^[A-Z][A-Za-z0-9]*$/.test(name)) {
+        throw new Error(`"${name}" is not a StudlyCase model name.`);
+    }
+    const draft = openDraft(source);
+    const models = modelPairs(draft);
+    const own = models.find((pair) => pairKey(pair) === from);
+    if (!own) throw new Error(`Model "${from}" is not in the draft.`);
+    if (name === from) return { source, changes: [] };
+    if (models.some((pair) => pairKey(pair) === name)) throw new Error(`Model "${name}" is already in the draft.`);
+
+    const changes: DraftReferenceChange[] = [];
+    const record = (path: unknown[], before: string, after: string | null) => changes.push({ path: path.join('.'), before, after });
+    renamePairKey(draft, own, name);
+    record(['models', from], from, name);
+
+    const fromKey = `${snakeCase(from)}_id`;
+    const toKey = `${snakeCase(name)}_id`;
+    for (const modelPair of models) {
+        const model = String(pairKey(modelPair));
+        const def = modelPair.value;
+        if (!isMap(def)) continue;
+        for (const relPair of mapPairs(def.get('relationships', true))) {
+            const value = scalarText(relPair.value);
+            if (value === undefined) continue;
+            const next = retargetEntries(value, from, name).join(', ');
+            if (next === splitRelationEntries(value).join(', ')) continue;
+            replaceScalar(draft, relPair.value as Scalar, next);
+            record(['models', model, 'relationships', pairKey(relPair)], value, next);
+        }
+        for (const pivotPair of mapPairs(def.get('pivots', true))) {
+            if (pairKey(pivotPair) !== from) continue;
+            renamePairKey(draft, pivotPair, name);
+            record(['models', model, 'pivots', from], from, name);
+        }
+        for (const columnPair of def.items) {
+            const column = String(pairKey(columnPair));
+            const definition = scalarText(columnPair.value);
+            if (RESERVED_MODEL_KEYS.includes(column) || definition === undefined) continue;
+            const parsed = parseColumnDefinition(definition);
+            if (parsed.type !== 'id' || parsed.param !== from) continue;
+            const next = formatColumnDefinition({ ...parsed, param: name });
+            replaceScalar(draft, columnPair.value as Scalar, next);
+            record(['models', model, column], definition, next);
+        }
+        const keyPair = def.items.find((pair) => pairKey(pair) === fromKey);
+        const keyDefinition = parseColumnDefinition(scalarText(keyPair?.value) ?? '');
+        const belongsTo = retargetEntries(scalarText(def.getIn(['relationships', 'belongsTo'], true)) ?? '', from, name);
+        const pointsAtModel = (keyDefinition.type === 'id' && (keyDefinition.param === from || keyDefinition.param === name)) || belongsTo.includes(name);
+        if (keyPair && pointsAtModel && !def.has(toKey)) {
+            renamePairKey(draft, keyPair, toKey);
+            record(['models', model, fromKey], fromKey, toKey);
+        }
+    }
+
+    for (const actionPair of mapPairs(rootPair(draft, 'actions')?.value)) {
+        const action = String(pairKey(actionPair));
+        const def = actionPair.value;
+        if (!isMap(def)) continue;
+        for (const key of ['model', 'return']) {
+            const node = def.get(key, true);
+            if (scalarText(node) !== from) continue;
+            replaceScalar(draft, node as Scalar, name);
+            record(['actions', action, key], from, name);
+        }
+        const params = def.get('params', true);
+        if (!isSeq(params)) continue;
+        params.items.forEach((param, i) => {
+            const type = isMap(param) ? param.get('type', true) : param;
+            if (scalarText(type) !== from) return;
+            replaceScalar(draft, type as Scalar, name);
+            record(['actions', action, 'params', i, ...(isMap(param) ? ['type'] : [])], from, name);
+        });
+    }
+    for (const pagePair of mapPairs(rootPair(draft, 'pages')?.value)) {
+        if (pairKey(pagePair) !== from) continue;
+        renamePairKey(draft, pagePair, name);
+        record(['pages', from], from, name);
+    }
+    return { source: draftResult(draft), changes };
+}
+
+/**
+ * Drop relationship entries and `pivots` keys whose model fails `keep` from a model definition.
+ * Emptied `relationships` and `pivots` are added to `removed` for the caller to take out with the
+ * model's other pairs; `morphTo` names no model and stays.
+ */
+function dropRelations(
+    draft: DraftText,
+    def: YAMLMap,
+    keep: (model: string) => boolean,
+    removed: Pair[],
+    record: (path: unknown[], before: string, after: string | null) => void,
+): void {
+    const relationshipsPair = def.items.find((pair) => pairKey(pair) === 'relationships');
+    if (relationshipsPair && isMap(relationshipsPair.value)) {
+        const dropped: Pair[] = [];
+        for (const relPair of relationshipsPair.value.items) {
+            const value = scalarText(relPair.value);
+            if (value === undefined || pairKey(relPair) === 'morphTo') continue;
+            const entries = splitRelationEntries(value).filter((entry) => keep(entry.split(':')[0].trim()));
+            if (entries.length === splitRelationEntries(value).length) continue;
+            if (entries.length > 0) {
+                replaceScalar(draft, relPair.value as Scalar, entries.join(', '));
+                record(['relationships', pairKey(relPair)], value, entries.join(', '));
+            } else {
+                dropped.push(relPair);
+                record(['relationships', pairKey(relPair)], value, null);
+            }
+        }
+        if (dropped.length === relationshipsPair.value.items.length) {
+            removed.push(relationshipsPair);
+        } else {
+            removePairs(draft, relationshipsPair, dropped);
+        }
+    }
+    const pivotsPair = def.items.find((pair) => pairKey(pair) === 'pivots');
+    if (pivotsPair && isMap(pivotsPair.value)) {
+        const dropped = pivotsPair.value.items.filter((pair) => !keep(String(pairKey(pair))));
+        for (const pair of dropped) record(['pivots', pairKey(pair)], nodeText(pair.value), null);
+        if (dropped.length === pivotsPair.value.items.length) {
+            removed.push(pivotsPair);
+        } else {
+            removePairs(draft, pivotsPair, dropped);
+        }
+    }
+}
+
+/** `id:Model` columns of a model definition whose model fails `keep`. */
+function foreignKeyColumns(def: YAMLMap, keep: (model: string) => boolean): Pair[] {
+    return def.items.filter((pair) => {
+        const definition = scalarText(pair.value);
+        if (RESERVED_MODEL_KEYS.includes(String(pairKey(pair))) || definition === undefined) return false;
+        const { type, param } = parseColumnDefinition(definition);
+        return type === 'id' && !!param && !keep(param);
+    });
+}
+
+/**
+ * Delete a model and, per `options`, the references to it elsewhere in the draft. Emptied
+ * `relationships` and `pivots` mappings are removed with their last entry.
+ */
+export function deleteModel(source: string, model: string, options: DeleteModelOptions): DraftRefactoring {
+    const draft = openDraft(source);
+    const models = modelPairs(draft);
+    const own = models.find((pair) => pairKey(pair) === model);
+    if (!own) throw new Error(`Model "${model}" is not in the draft.`);
+
+    const changes: DraftReferenceChange[] = [];
+    const record = (path: unknown[], before: string, after: string | null) => changes.push({ path: path.join('.'), before, after });
+    record(['models', model], nodeText(own.value), null);
+    const keep = (name: string) => name !== model;
+
+    for (const modelPair of models) {
+        const name = String(pairKey(modelPair));
+        const def = modelPair.value;
+        if (modelPair === own || !isMap(def)) continue;
+        const removed: Pair[] = [];
+        if (options.relations) {
+            dropRelations(draft, def, keep, removed, (path, before, after) => record(['models', name, ...path], before, after));
+        }
+        if (options.foreignKeys) {
+            for (const columnPair of foreignKeyColumns(def, keep)) {
+                removed.push(columnPair);
+                record(['models', name, pairKey(columnPair)], scalarText(columnPair.value) ?? '', null);
+            }
+        }
+        removePairs(draft, modelPair, removed);
+    }
+    removePairs(draft, rootPair(draft, 'models')!, [own]);
+
+    if (options.actionsAndPages) {
+        const actions = rootPair(draft, 'actions');
+        const used = mapPairs(actions?.value).filter((actionPair) => actionUsesModel(actionPair.value, model));
+        for (const actionPair of used) record(['actions', pairKey(actionPair)], nodeText(actionPair.value), null);
+        if (actions) removePairs(draft, actions, used);
+        const pages = rootPair(draft, 'pages');
+        const page = mapPairs(pages?.value).find((pair) => pairKey(pair) === model);
+        if (pages && page) {
+            record(['pages', model], nodeText(page.value), null);
+            removePairs(draft, pages, [page]);
+        }
+    }
+    return { source: draftResult(draft), changes };
+}
+
+/** Models as draft YAML (`models:` with each full definition as written), for the clipboard. */
+export function copyModels(source: string, models: string[]): string {
+    const draft = openDraft(source);
+    const pairs = modelPairs(draft).filter((pair) => models.includes(String(pairKey(pair))));
+    const indent = detectIndent(draft.source);
+    return `models:\n${pairs.map((pair) => shiftLines(pairSource(draft, pair), indent)).join('')}`;
+}
+
+/** Models merged by pasteModels, with the names they were given. */
+export interface PastedModels {
+    source: string;
+    /** Pasted model name → name in the draft, for models renamed because the name was taken. */
+    renamed: Record<string, string>;
+    /** Names of the pasted models in the draft. */
+    models: string[];
+    /** Models outside the pasted set that the pasted models reference (kept or stripped). */
+    outside: string[];
+}
+
+/**
+ * Models a definition refers to: relationship targets, `pivots` keys and `id:Model` columns.
+ * `morphTo` values are morph names (`mediable`), not models.
+ */
+function referencedModels(def: unknown): string[] {
+    if (!isMap(def)) return [];
+    const refs = mapPairs(def.get('relationships', true))
+        .filter((pair) => pairKey(pair) !== 'morphTo')
+        .flatMap((pair) => splitRelationEntries(scalarText(pair.value)).map((entry) => entry.split(':')[0].trim()));
+    refs.push(...mapPairs(def.get('pivots', true)).map((pair) => String(pairKey(pair))));
+    for (const pair of def.items) {
+        const definition = scalarText(pair.value);
+        if (RESERVED_MODEL_KEYS.includes(String(pairKey(pair))) || definition === undefined) continue;
+        const { type, param } = parseColumnDefinition(definition);
+        if (type === 'id' && param) refs.push(param);
+    }
+    return refs;
+}
+
+/** First free name in `Tag2`, `Tag3`, … */
+function freeModelName(model: string, taken: Set<string>): string {
+    let n = 2;
+    while (taken.has(`${model}${n}`)) n++;
+    return `${model}${n}`;
+}
+
+/**
+ * Merge the models of a copied draft (see copyModels) into `source`, after its last model and in
+ * its indentation. Models whose name is taken get a numbered name, and references among the pasted
+ * models follow the rename. Relationships, `pivots` and `id:Model` columns pointing at models
+ * outside the pasted set are kept, or stripped when `keepOutsideRelations` is false (`morphTo`
+ * names no model and always stays). Throws when the clipboard holds no models.
+ */
+export function pasteModels(source: string, clipboard: string, keepOutsideRelations: boolean): PastedModels {
+    let pasted = openDraft(clipboard);
+    const pastedNames = modelPairs(pasted).map((pair) => String(pairKey(pair)));
+    if (pastedNames.length === 0) throw new Error('The clipboard holds no draft models.');
+
+    const draft = openDraft(source);
+    const existing = modelPairs(draft).map((pair) => String(pairKey(pair)));
+    const taken = new Set([...existing, ...pastedNames]);
+    const renamed: Record<string, string> = {};
+    let text = pasted.source;
+    for (const model of pastedNames) {
+        if (!existing.includes(model)) continue;
+        renamed[model] = freeModelName(model, taken);
+        taken.add(renamed[model]);
+        text = renameModel(text, model, renamed[model]).source;
+    }
+    const names = pastedNames.map((model) => renamed[model] ?? model);
+    const keep = (model: string) => names.includes(model);
+
+    pasted = openDraft(text);
+    const outside = new Set(modelPairs(pasted).flatMap((pair) => referencedModels(pair.value)).filter((m) => !keep(m)));
+    if (!keepOutsideRelations) {
+        for (const modelPair of modelPairs(pasted)) {
+            const def = modelPair.value;
+            if (!isMap(def)) continue;
+            const removed: Pair[] = [];
+            dropRelations(pasted, def, keep, removed, () => {});
+            removed.push(...foreignKeyColumns(def, keep));
+            removePairs(pasted, modelPair, removed);
+        }
+        pasted = openDraft(draftResult(pasted));
+    }
+
+    const models = rootPair(draft, 'models');
+    if (models && isMap(models.value) && models.value.flow && models.value.items.length > 0) {
+        const values = pasted.doc.toJS() as { models: Record<string, unknown> };
+        for (const model of names) insertPair(draft, models, model, values.models[model]);
+    } else {
+        const indent = detectIndent(draft.source);
+        const pairs = restepLines(modelPairs(pasted).map((pair) => pairSource(pasted, pair)).join(''), detectIndent(pasted.source), indent);
+        if (models) {
+            insertPairText(draft, models, pairs);
+        } else {
+            insertPairText(draft, null, `models:\n${shiftLines(pairs, indent)}`);
+        }
+    }
+    return { source: draftResult(draft), renamed, models: names, outside: [...outside] };
+}
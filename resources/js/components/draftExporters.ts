@@ -0,0 +1,288 @@
+import { RESERVED_MODEL_KEYS } from '../constants';
+import { parseColumnDefinition } from './columnFormat';
+import {
+    draftPivotTables,
+    modelForeignKeys,
+    modelToTableName,
+    morphManyName,
+    morphToNames,
+    pivotFkColumn,
+    type ParsedDraft,
+} from './draftToFlow';
+
+export type DraftTextFormat = 'mermaid' | 'dbml' | 'plantuml';
+
+export const DRAFT_TEXT_FORMATS: Record<DraftTextFormat, { label: string; extension: string }> = {
+    mermaid: { label: 'Mermaid', extension: 'mmd' },
+    dbml: { label: 'DBML', extension: 'dbml' },
+    plantuml: { label: 'PlantUML', extension: 'puml' },
+};
+
+interface SchemaColumn {
+    name: string;
+    /** SQL-ish type without arguments, e.g. `varchar`, `decimal`. */
+    type: string;
+    /** Type arguments, e.g. `255` or `8,2`. */
+    args?: string;
+    pk: boolean;
+    unique: boolean;
+    nullable: boolean;
+    /** Referenced table for foreign keys (always its `id`). */
+    references?: string;
+}
+
+interface SchemaTable {
+    name: string;
+    columns: SchemaColumn[];
+}
+
+/** Parent-to-child relation; `column` is the child's foreign key when there is one. */
+interface SchemaRelation {
+    parent: string;
+    child: string;
+    many: boolean;
+    /** Child rows may exist without a parent (nullable foreign key). */
+    optional: boolean;
+    label: string;
+    column?: string;
+    polymorphic?: boolean;
+}
+
+interface ExportSchema {
+    tables: SchemaTable[];
+    relations: SchemaRelation[];
+}
+
+/** Draft column types → SQL-ish types shared by the three formats. */
+const SQL_TYPES: Record<string, string> = {
+    string: 'varchar',
+    text: 'text',
+    longtext: 'longtext',
+    integer: 'int',
+    bigInteger: 'bigint',
+    unsignedBigInteger: 'bigint',
+    decimal: 'decimal',
+    boolean: 'boolean',
+    date: 'date',
+    datetime: 'datetime',
+    timestamp: 'timestamp',
+    json: 'json',
+    uuid: 'uuid',
+    id: 'bigint',
+    foreignId: 'bigint',
+    bigIncrements: 'bigint',
+};
+
+function keyColumn(name: string, references?: string): SchemaColumn {
+    return { name, type: 'bigint', pk: name === 'id', unique: false, nullable: false, references };
+}
+
+function draftColumn(name: string, definition: string, references?: string): SchemaColumn {
+    const parsed = parseColumnDefinition(definition);
+    const type = SQL_TYPES[parsed.type] ?? parsed.type;
+    const args = parsed.type === 'id' ? undefined : (parsed.param ?? (type === 'varchar' ? '255' : undefined));
+    return {
+        name,
+        type,
+        args,
+        pk: name === 'id',
+        unique: parsed.modifiers.includes('unique'),
+        nullable: parsed.modifiers.includes('nullable'),
+        references: references ?? (parsed.type === 'id' && parsed.param ? modelToTableName(parsed.param) : undefined),
+    };
+}
+
+function relationMethod(entry: string): string | undefined {
+    return entry.split(':')[1]?.trim() || undefined;
+}
+
+/**
+ * Tables and relations as the generators would produce them: every model table gets `id` and
+ * timestamps, belongsTo foreign keys the normalizer adds, polymorphic `{name}_type`/`{name}_id`
+ * columns and belongsToMany pivot tables.
+ */
+function buildExportSchema(draft: ParsedDraft): ExportSchema {
+    const models = draft.models ?? {};
+    const names = Object.keys(models);
+    const tables: SchemaTable[] = [];
+    const relations: SchemaRelation[] = [];
+    const linked = new Set<string>();
+
+    for (const name of names) {
+        const def = models[name] ?? {};
+        const table = modelToTableName(name);
+        const written = Object.keys(def).filter((k) => !RESERVED_MODEL_KEYS.includes(k) && typeof def[k] === 'string');
+        const foreignKeys = modelForeignKeys(def).filter((fk) => names.includes(fk.target));
+        const fkTables = new Map(foreignKeys.map((fk) => [fk.column, modelToTableName(fk.target)]));
+
+        const columns: SchemaColumn[] = written.includes('id') ? [] : [keyColumn('id')];
+        for (const column of written) {
+            columns.push(draftColumn(column, String(def[column]), fkTables.get(column)));
+        }
+        for (const fk of foreignKeys) {
+            if (!written.includes(fk.column)) columns.push(keyColumn(fk.column, fkTables.get(fk.column)));
+        }
+        for (const morph of morphToNames(def)) {
+            if (!written.includes(`${morph}_type`)) columns.push(draftColumn(`${morph}_type`, 'string'));
+            if (!written.includes(`${morph}_id`)) columns.push(keyColumn(`${morph}_id`));
+        }
+        for (const column of ['created_at', 'updated_at', ...(def.softDeletes ? ['deleted_at'] : [])]) {
+            if (!written.includes(column)) columns.push(draftColumn(column, 'timestamp nullable'));
+        }
+        tables.push({ name: table, columns });
+
+        for (const fk of foreignKeys) {
+            const parentDef = models[fk.target] ?? {};
+            const hasOne = String(parentDef.relationships?.hasOne ?? '')
+                .split(',')
+                .some((entry) => entry.split(':')[0].trim() === name);
+            const column = columns.find((c) => c.name === fk.column);
+            relations.push({
+                parent: modelToTableName(fk.target),
+                child: table,
+                many: !hasOne,
+                optional: column?.nullable ?? false,
+                label: (fk.relation && relationMethod(fk.relation)) ?? fk.column,
+                column: fk.column,
+            });
+            linked.add(`${fk.target}|${name}`);
+        }
+    }
+
+    // hasMany/hasOne whose child declares no foreign key back, and polymorphic relations.
+    for (const name of names) {
+        const rels = models[name]?.relationships;
+        if (!rels) continue;
+        for (const relType of ['hasMany', 'hasOne', 'morphMany'] as const) {
+            const value = rels[relType];
+            if (typeof value !== 'string') continue;
+            for (const entry of value.split(',').map((t) => t.trim())) {
+                const child = entry.split(':')[0].trim();
+                if (!names.includes(child)) continue;
+                if (relType === 'morphMany') {
+                    const morph = morphManyName(entry, morphToNames(models[child] ?? {}));
+                    if (!morph) continue;
+                    relations.push({
+                        parent: modelToTableName(name),
+                        child: modelToTableName(child),
+                        many: true,
+                        optional: false,
+                        label: morph,
+                        polymorphic: true,
+                    });
+                    continue;
+                }
+                if (linked.has(`${name}|${child}`)) continue;
+                relations.push({
+                    parent: modelToTableName(name),
+                    child: modelToTableName(child),
+                    many: relType === 'hasMany',
+                    optional: false,
+                    label: relationMethod(entry) ?? relType,
+                });
+            }
+        }
+    }
+
+    for (const pivot of draftPivotTables(models)) {
+        const keys = pivot.models.map((m) => ({ ...keyColumn(pivotFkColumn(m), modelToTableName(m)), pk: true }));
+        const extra = Object.entries(pivot.columns).map(([column, definition]) => draftColumn(column, definition));
+        tables.push({ name: pivot.table, columns: [...keys, ...extra] });
+        for (const model of pivot.models) {
+            relations.push({
+                parent: modelToTableName(model),
+                child: pivot.table,
+                many: true,
+                optional: false,
+                label: pivotFkColumn(model),
+                column: pivotFkColumn(model),
+            });
+        }
+    }
+
+    return { tables, relations };
+}
+
+/** Crow's foot for the relation, shared by Mermaid and PlantUML (`||--o{`, dotted when polymorphic). */
+function crowsFoot(rel: SchemaRelation): string {
+    const parent = rel.optional ? '|o' : '||';
+    const child = rel.many ? 'o{' : 'o|';
+    return `${parent}${rel.polymorphic ? '..' : '--'}${child}`;
+}
+
+function typeWithArgs(column: SchemaColumn): string {
+    return column.args ? `${column.type}(${column.args})` : column.type;
+}
+
+export function draftToMermaid(draft: ParsedDraft): string {
+    const { tables, relations } = buildExportSchema(draft);
+    const lines = ['erDiagram'];
+    for (const table of tables) {
+        lines.push(`    ${table.name} {`);
+        for (const column of table.columns) {
+            const keys = [column.pk && 'PK', column.references && 'FK', column.unique && 'UK'].filter(Boolean);
+            // Mermaid attribute types are single words, so arguments like (8,2) are dropped.
+            lines.push(`        ${column.type} ${column.name}${keys.length > 0 ? ` ${keys.join(', ')}` : ''}${column.nullable ? ' "nullable"' : ''}`);
+        }
+        lines.push('    }');
+    }
+    for (const rel of relations) {
+        lines.push(`    ${rel.parent} ${crowsFoot(rel)} ${rel.child} : "${rel.label}"`);
+    }
+    return `${lines.join('\n')}\n`;
+}
+
+export function draftToDbml(draft: ParsedDraft): string {
+    const { tables, relations } = buildExportSchema(draft);
+    const blocks: string[] = [];
+    for (const table of tables) {
+        const pkColumns = table.columns.filter((c) => c.pk);
+        const lines = [`Table ${table.name} {`];
+        for (const column of table.columns) {
+            const settings = [
+                column.pk && pkColumns.length === 1 && 'pk',
+                column.pk && pkColumns.length === 1 && column.name === 'id' && 'increment',
+                column.unique && 'unique',
+                column.nullable ? 'null' : !column.pk && 'not null',
+            ].filter(Boolean);
+            lines.push(`  ${column.name} ${typeWithArgs(column)}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`);
+        }
+        if (pkColumns.length > 1) {
+            lines.push('', '  indexes {', `    (${pkColumns.map((c) => c.name).join(', ')}) [pk]`, '  }');
+        }
+        lines.push('}');
+        blocks.push(lines.join('\n'));
+    }
+    const refs = relations.map((rel) =>
+        rel.column
+            ? `Ref: ${rel.child}.${rel.column} ${rel.many ? '>' : '-'} ${rel.parent}.id`
+            : `// ${rel.parent} → ${rel.child} (${rel.label}): ${rel.polymorphic ? 'polymorphic, no foreign key' : 'no foreign key column in the draft'}`,
+    );
+    return `${[...blocks, ...(refs.length > 0 ? [refs.join('\n')] : [])].join('\n\n')}\n`;
+}
+
+export function draftToPlantUml(draft: ParsedDraft): string {
+    const { tables, relations } = buildExportSchema(draft);
+    const lines = ['@startuml', 'hide circle', 'skinparam linetype ortho', ''];
+    for (const table of tables) {
+        lines.push(`entity "${table.name}" as ${table.name} {`);
+        const keyColumns = table.columns.filter((c) => c.pk);
+        const rest = table.columns.filter((c) => !c.pk);
+        const row = (column: SchemaColumn) => {
+            const stereotypes = [column.pk && '<<PK>>', column.references && '<<FK>>', column.unique && '<<unique>>'].filter(Boolean);
+            return `  ${column.nullable ? '' : '* '}${column.name} : ${typeWithArgs(column)}${stereotypes.length > 0 ? ` ${stereotypes.join(' ')}` : ''}`;
+        };
+        lines.push(...keyColumns.map(row), '  --', ...rest.map(row), '}', '');
+    }
+    for (const rel of relations) {
+        lines.push(`${rel.parent} ${crowsFoot(rel)} ${rel.child} : ${rel.label}`);
+    }
+    lines.push('@enduml');
+    return `${lines.join('\n')}\n`;
+}
+
+export const DRAFT_TEXT_EXPORTERS: Record<DraftTextFormat, (draft: ParsedDraft) => string> = {
+    mermaid: draftToMermaid,
+    dbml: draftToDbml,
+    plantuml: draftToPlantUml,
+};
@@ -0,0 +1,486 @@
+import type { DraftModels } from './draftToFlow';
+
+export type DraftImportFormat = 'dbml' | 'mermaid';
+
+export const DRAFT_IMPORT_FORMATS: Record<DraftImportFormat, string> = {
+    dbml: 'DBML',
+    mermaid: 'Mermaid erDiagram',
+};
+
+interface ImportColumn {
+    name: string;
+    /** Source type, lower-cased, without arguments (`varchar`, `decimal`). */
+    type: string;
+    args?: string;
+    pk: boolean;
+    unique: boolean;
+    nullable: boolean;
+}
+
+interface ImportTable {
+    name: string;
+    columns: ImportColumn[];
+}
+
+/** `from` has many/one rows per `to` row; `column` is the foreign key on `from` when known. */
+interface ImportRelation {
+    from: string;
+    to: string;
+    column?: string;
+    kind: 'manyToOne' | 'oneToOne' | 'manyToMany';
+}
+
+interface ImportSchema {
+    tables: ImportTable[];
+    relations: ImportRelation[];
+}
+
+/** Columns the generators add by themselves. */
+const GENERATED_COLUMNS = ['id', 'created_at', 'updated_at', 'deleted_at'];
+
+/** Source column types → draft column types (see SCHEMA.md). */
+const DRAFT_TYPES: Record<string, string> = {
+    varchar: 'string',
+    char: 'string',
+    string: 'string',
+    text: 'text',
+    mediumtext: 'longtext',
+    longtext: 'longtext',
+    int: 'integer',
+    integer: 'integer',
+    smallint: 'integer',
+    tinyint: 'integer',
+    bigint: 'bigInteger',
+    decimal: 'decimal',
+    numeric: 'decimal',
+    float: 'decimal',
+    double: 'decimal',
+    bool: 'boolean',
+    boolean: 'boolean',
+    date: 'date',
+    datetime: 'datetime',
+    timestamp: 'timestamp',
+    timestamptz: 'timestamp',
+    json: 'json',
+    jsonb: 'json',
+    uuid: 'uuid',
+};
+
+/** Best-effort format detection for pasted text. */
+export function detectImportFormat(source: string): DraftImportFormat {
+    return /^\s*erDiagram\b/m.test(source) ? 'mermaid' : 'dbml';
+}
+
+function unquote(name: string): string {
+    return name.trim().replace(/^["'`]|["'`]$/g, '');
+}
+
+/** `public.users` → `users`. */
+function bareTableName(name: string): string {
+    const parts = unquote(name).split('.');
+    return unquote(parts[parts.length - 1]);
+}
+
+function singular(word: string): string {
+    if (/ies$/i.test(word)) return `${word.slice(0, -3)}y`;
+    if (/(ss|x|ch|sh)es$/i.test(word)) return word.slice(0, -2);
+    if (/ses$/i.test(word)) return word.slice(0, -1);
+    if (/[^s]s$/i.test(word)) return word.slice(0, -1);
+    return word;
+}
+
+/** Table or entity name (`order_items`, `ORDER-ITEM`, `OrderItems`) → singular StudlyCase model name. */
+export function tableToModelName(name: string): string {
+    const bare = bareTableName(name);
+    if (/^[A-Z][A-Za-z0-9]*$/.test(bare) && /[a-z]/.test(bare)) {
+        return singular(bare);
+    }
+    const words = bare.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+    if (words.length === 0) return bare;
+    words[words.length - 1] = singular(words[words.length - 1]);
+    return words.map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join('');
+}
+
+function snake(name: string): string {
+    return name.replace(/([A-Z])/g, '_$1').toLowerCase().replace(/^_/, '');
+}
+
+function camel(name: string): string {
+    return name.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+function draftDefinition(column: ImportColumn): string {
+    const type = DRAFT_TYPES[column.type] ?? 'string';
+    let head = type;
+    if (column.args && (type === 'string' || type === 'decimal')) {
+        const args = column.args.replace(/\s+/g, '');
+        if (!(type === 'string' && args === '255')) head = `${type}:${args}`;
+    }
+    return [head, column.nullable && 'nullable', column.unique && 'unique'].filter(Boolean).join(' ');
+}
+
+function splitType(raw: string): { type: string; args?: string } {
+    const m = raw.trim().match(/^([\w"]+)\s*(?:\(([^)]*)\))?/);
+    if (!m) return { type: raw.trim().toLowerCase() };
+    return { type: unquote(m[1]).toLowerCase(), args: m[2]?.trim() || undefined };
+}
+
+/** DBML relation operator → kind, seen from the left-hand column. */
+function dbmlKind(op: string): { kind: ImportRelation['kind']; flip: boolean } {
+    if (op === '<') return { kind: 'manyToOne', flip: true };
+    if (op === '-') return { kind: 'oneToOne', flip: false };
+    if (op === '<>') return { kind: 'manyToMany', flip: false };
+    return { kind: 'manyToOne', flip: false };
+}
+
+function dbmlRelation(left: string, op: string, right: string): ImportRelation | null {
+    const endpoint = (ref: string) => {
+        const parts = ref.trim().split('.').map(unquote);
+        if (parts.length < 2) return null;
+        return { table: parts[parts.length - 2], column: parts[parts.length - 1] };
+    };
+    const a = endpoint(left);
+    const b = endpoint(right);
+    if (!a || !b) return null;
+    const { kind, flip } = dbmlKind(op);
+    const [from, to] = flip ? [b, a] : [a, b];
+    return { from: from.table, to: to.table, column: kind === 'manyToMany' ? undefined : from.column, kind };
+}
+
+const DBML_REF = /^\s*([\w."]+)\s*(<>|<|>|-)\s*([\w."]+)/;
+
+/** Drop `//` comments, leaving `//` inside quoted strings (`default: 'https://…'`) alone. */
+function stripLineComments(source: string): string {
+    return source
+        .split('\n')
+        .map((line) => {
+            let quote: string | null = null;
+            for (let i = 0; i < line.length; i++) {
+                const char = line[i];
+                if (quote) {
+                    if (char === '\\') i++;
+                    else if (char === quote) quote = null;
+                } else if (char === "'" || char === '"' || char === '`') {
+                    quote = char;
+                } else if (char === '/' && line[i + 1] === '/') {
+                    return line.slice(0, i);
+                }
+            }
+            return line;
+        })
+        .join('\n');
+}
+
+/**
+ * Parse DBML (dbdiagram.io): `Table` blocks (`as` aliases included) with column settings (pk,
+ * unique, null, inline `ref:`), composite `[pk]` indexes, and `Ref:` lines or blocks. Enums,
+ * notes, projects and table groups are skipped.
+ */
+export function parseDbml(source: string): ImportSchema {
+    const tables: ImportTable[] = [];
+    const relations: ImportRelation[] = [];
+    /** `Table users as U` → U → users, for refs that use the alias. */
+    const aliases = new Map<string, string>();
+    // Braces on their own lines, so one-line blocks (`indexes { (a, b) [pk] }`) read like multi-line ones.
+    const lines = stripLineComments(source)
+        .replace(/[{}]/g, (brace) => `\n${brace}\n`)
+        .split('\n')
+        .map((l) => l.trim())
+        .filter(Boolean);
+    let table: ImportTable | null = null;
+    let skipDepth = 0;
+    let inIndexes = false;
+    let inRefBlock = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line === '{' || line === '}') {
+            if (skipDepth > 0) skipDepth += line === '{' ? 1 : -1;
+            else if (line === '{') skipDepth = 1;
+            else if (inIndexes) inIndexes = false;
+            else if (inRefBlock) inRefBlock = false;
+            else if (table) {
+                tables.push(table);
+                table = null;
+            }
+            continue;
+        }
+        if (skipDepth > 0) continue;
+
+        // A header opens the block on the next line.
+        if (lines[i + 1] === '{') {
+            i++;
+            if (table && /^indexes$/i.test(line)) {
+                inIndexes = true;
+            } else if (!table && /^table\s/i.test(line)) {
+                const name = line.match(/^table\s+([\w."]+)(?:\s+as\s+([\w"]+))?/i);
+                table = { name: bareTableName(name?.[1] ?? ''), columns: [] };
+                if (name?.[2]) aliases.set(unquote(name[2]), table.name);
+            } else if (!table && /^ref\b/i.test(line)) {
+                inRefBlock = true;
+            } else {
+                // Enum, Project, TableGroup, Note and other blocks that carry no columns.
+                skipDepth = 1;
+            }
+            continue;
+        }
+
+        if (inRefBlock) {
+            const m = line.match(DBML_REF);
+            const rel = m && dbmlRelation(m[1], m[2], m[3]);
+            if (rel) relations.push(rel);
+            continue;
+        }
+        if (inIndexes && table) {
+            const composite = line.match(/^\(([^)]*)\)\s*\[([^\]]*)\]/);
+            if (composite && /\bpk\b/.test(composite[2])) {
+                for (const name of composite[1].split(',').map(unquote)) {
+                    const column = table.columns.find((c) => c.name === name);
+                    if (column) column.pk = true;
+                }
+            }
+            continue;
+        }
+        if (table) {
+            if (/^note\s*:/i.test(line)) continue;
+            const m = line.match(/^("[^"]+"|[\w]+)\s+([\w"]+(?:\s*\([^)]*\))?)\s*(?:\[(.*)\])?/);
+            if (!m) continue;
+            const settings = (m[3] ?? '').split(',').map((s) => s.trim().toLowerCase());
+            const { type, args } = splitType(m[2]);
+            const column: ImportColumn = {
+                name: unquote(m[1]),
+                type,
+                args,
+                pk: settings.includes('pk') || settings.includes('primary key'),
+                unique: settings.includes('unique'),
+                nullable: settings.includes('null'),
+            };
+            table.columns.push(column);
+            const inlineRef = (m[3] ?? '').match(/ref:\s*(<>|<|>|-)\s*([\w."]+)/i);
+            if (inlineRef) {
+                const rel = dbmlRelation(`${table.name}.${column.name}`, inlineRef[1], inlineRef[2]);
+                if (rel) relations.push(rel);
+            }
+            continue;
+        }
+
+        const refLine = line.match(/^ref\s*[\w"]*\s*:\s*(.*)$/i);
+        if (refLine) {
+            const m = refLine[1].match(DBML_REF);
+            const rel = m && dbmlRelation(m[1], m[2], m[3]);
+            if (rel) relations.push(rel);
+        }
+    }
+
+    if (table) throw new Error(`Table "${table.name}" is missing its closing brace.`);
+    const resolve = (name: string) => aliases.get(name) ?? name;
+    return { tables, relations: relations.map((rel) => ({ ...rel, from: resolve(rel.from), to: resolve(rel.to) })) };
+}
+
+const MERMAID_RELATION = /^("?[\w-]+"?)\s+(\|o|\|\||\}o|\}\|)(--|\.\.)(o\||\|\||o\{|\|\{)\s+("?[\w-]+"?)\s*(?::\s*(.*))?$/;
+
+/**
+ * Parse a Mermaid `erDiagram`: entity blocks (`type name PK, FK, UK "comment"`) and crow's-foot
+ * relationships. Mermaid does not say which column holds a foreign key, so it is matched by
+ * name (the relationship label or `<entity>_id`) among the child's FK columns.
+ */
+export function parseMermaidEr(source: string): ImportSchema {
+    const lines = source.split('\n').map((l) => l.replace(/%%.*$/, '').trim());
+    const start = lines.findIndex((l) => /^erDiagram\b/.test(l));
+    if (start < 0) throw new Error('Mermaid source must start with "erDiagram".');
+
+    const tables = new Map<string, ImportTable>();
+    const ensure = (name: string) => {
+        const key = unquote(name).replace(/\[.*$/, '');
+        if (!tables.has(key)) tables.set(key, { name: key, columns: [] });
+        return tables.get(key)!;
+    };
+    const links: { parent: string; child: string; many: boolean; manyParents: boolean; label?: string }[] = [];
+    let entity: ImportTable | null = null;
+
+    for (const line of lines.slice(start + 1)) {
+        if (!line) continue;
+        if (entity) {
+            if (line.startsWith('}')) {
+                entity = null;
+                continue;
+            }
+            const m = line.match(/^([\w()[\],-]+)\s+([\w-]+)(?:\s+((?:PK|FK|UK)(?:\s*,\s*(?:PK|FK|UK))*))?/);
+            if (!m) continue;
+            const keys = (m[3] ?? '').split(',').map((k) => k.trim());
+            const { type, args } = splitType(m[1]);
+            entity.columns.push({
+                name: m[2],
+                type,
+                args,
+                pk: keys.includes('PK'),
+                unique: keys.includes('UK'),
+                nullable: /"[^"]*\bnullable\b[^"]*"/i.test(line),
+            });
+            continue;
+        }
+        const block = line.match(/^("?[\w-]+"?)(?:\s*\[[^\]]*\])?\s*{$/);
+        if (block) {
+            entity = ensure(block[1]);
+            continue;
+        }
+        const rel = line.match(MERMAID_RELATION);
+        if (rel) {
+            const leftMany = rel[2].startsWith('}');
+            const rightMany = rel[4].endsWith('{');
+            const label = rel[6]?.trim().replace(/^"|"$/g, '') || undefined;
+            // Mermaid reads left-to-right: the "one" side is the parent.
+            if (leftMany && !rightMany) {
+                links.push({ parent: unquote(rel[5]), child: unquote(rel[1]), many: true, manyParents: false, label });
+            } else {
+                links.push({ parent: unquote(rel[1]), child: unquote(rel[5]), many: rightMany, manyParents: leftMany, label });
+            }
+            ensure(rel[1]);
+            ensure(rel[5]);
+        }
+    }
+
+    const relations: ImportRelation[] = [];
+    for (const link of links) {
+        if (link.manyParents && link.many) {
+            relations.push({ from: link.child, to: link.parent, kind: 'manyToMany' });
+            continue;
+        }
+        const child = tables.get(link.child)!;
+        const parentModel = tableToModelName(link.parent);
+        const candidates = [link.label, link.label && `${snake(link.label)}_id`, `${snake(parentModel)}_id`].filter(Boolean);
+        const column = child.columns.find((c) => candidates.includes(c.name));
+        relations.push({
+            from: link.child,
+            to: link.parent,
+            column: column?.name ?? `${snake(parentModel)}_id`,
+            kind: link.many ? 'manyToOne' : 'oneToOne',
+        });
+    }
+    return { tables: [...tables.values()], relations };
+}
+
+function appendRelation(model: DraftModels[string], relType: string, entry: string): void {
+    const rels = (model.relationships ??= {}) as Record<string, string>;
+    const entries = rels[relType] ? rels[relType].split(',').map((t) => t.trim()) : [];
+    if (!entries.includes(entry)) rels[relType] = [...entries, entry].join(', ');
+}
+
+/**
+ * Imported tables and relations → draft models. Foreign keys become belongsTo (with the inverse
+ * hasMany/hasOne), keeping only nullable or unique key columns since the normalizer re-adds the
+ * rest. Tables without an `id` that only join two other tables become belongsToMany pivots, with
+ * a custom name or extra columns under `pivots`.
+ */
+function schemaToDraft(schema: ImportSchema): { models: DraftModels } {
+    if (schema.tables.length === 0) throw new Error('No tables found.');
+
+    const byName = new Map(schema.tables.map((t) => [t.name, t]));
+    const modelOf = (table: string) => tableToModelName(table);
+    const fksByTable = new Map<string, { column: string; to: string; oneToOne: boolean }[]>();
+    for (const rel of schema.relations) {
+        if (rel.kind === 'manyToMany' || !rel.column || !byName.has(rel.from) || !byName.has(rel.to)) continue;
+        const list = fksByTable.get(rel.from) ?? [];
+        if (!list.some((fk) => fk.column === rel.column)) list.push({ column: rel.column, to: rel.to, oneToOne: rel.kind === 'oneToOne' });
+        fksByTable.set(rel.from, list);
+    }
+
+    const pivots = schema.tables.filter((t) => {
+        const fks = fksByTable.get(t.name) ?? [];
+        return !t.columns.some((c) => c.name === 'id') && fks.length === 2 && fks[0].to !== fks[1].to;
+    });
+    const pivotNames = new Set(pivots.map((t) => t.name));
+
+    const models: DraftModels = {};
+    for (const table of schema.tables) {
+        if (pivotNames.has(table.name)) continue;
+        const model: DraftModels[string] = {};
+        const fks = fksByTable.get(table.name) ?? [];
+        for (const column of table.columns) {
+            if (GENERATED_COLUMNS.includes(column.name)) continue;
+            const fk = fks.find((f) => f.column === column.name);
+            if (!fk) {
+                model[column.name] = draftDefinition(column);
+            } else if (!column.name.endsWith('_id') || column.nullable || column.unique) {
+                // `_id` keys only need writing out when the normalizer's plain foreignId would lose a setting.
+                const modifiers = [column.nullable && 'nullable', column.unique && 'unique'].filter(Boolean);
+                model[column.name] = [`id:${modelOf(fk.to)}`, ...modifiers].join(' ');
+            }
+        }
+        models[modelOf(table.name)] = model;
+    }
+    for (const table of schema.tables) {
+        if (pivotNames.has(table.name)) continue;
+        const model = models[modelOf(table.name)];
+        for (const fk of fksByTable.get(table.name) ?? []) {
+            if (!fk.column.endsWith('_id')) continue;
+            const parent = modelOf(fk.to);
+            const alias = camel(fk.column.slice(0, -3));
+            const conventional = snake(parent) === fk.column.slice(0, -3);
+            appendRelation(model, 'belongsTo', conventional ? parent : `${parent}:${alias}`);
+            const child = modelOf(table.name);
+            const inverse = conventional ? child : `${child}:${alias}`;
+            if (models[parent]) appendRelation(models[parent], fk.oneToOne ? 'hasOne' : 'hasMany', inverse);
+        }
+        if (table.columns.some((c) => c.name === 'deleted_at')) model.softDeletes = true;
+    }
+
+    const linkMany = (a: string, b: string, pivot?: ImportTable) => {
+        if (!models[a] || !models[b] || a === b) return;
+        appendRelation(models[a], 'belongsToMany', b);
+        appendRelation(models[b], 'belongsToMany', a);
+        if (!pivot) return;
+        const fkColumns = (fksByTable.get(pivot.name) ?? []).map((fk) => fk.column);
+        const extra = pivot.columns.filter((c) => !fkColumns.includes(c.name) && !GENERATED_COLUMNS.includes(c.name));
+        const defaultName = [snake(a), snake(b)].sort().join('_');
+        if (pivot.name === defaultName && extra.length === 0) return;
+        const config: { table?: string; columns?: Record<string, string> } = {};
+        if (pivot.name !== defaultName) config.table = pivot.name;
+        if (extra.length > 0) config.columns = Object.fromEntries(extra.map((c) => [c.name, draftDefinition(c)]));
+        models[a].pivots = { ...(models[a].pivots ?? {}), [b]: config };
+    };
+    for (const pivot of pivots) {
+        const [first, second] = fksByTable.get(pivot.name)!;
+        linkMany(modelOf(first.to), modelOf(second.to), pivot);
+    }
+    for (const rel of schema.relations) {
+        if (rel.kind === 'manyToMany') linkMany(modelOf(rel.from), modelOf(rel.to));
+    }
+
+    return { models };
+}
+
+/**
+ * A model imported from the codebase (`/architect/api/import` with `merge_schema_columns`) → draft
+ * definition. The table listing includes the columns the generators add themselves, so `id` and
+ * the timestamps are dropped and `deleted_at` becomes `softDeletes: true`. `<name>_id` columns
+ * become `id:Model` with a belongsTo when `knownModels` has the model, otherwise a plain bigInteger.
+ */
+export function codebaseModelToDraft(definition: DraftModels[string], knownModels: string[]): DraftModels[string] {
+    const model: DraftModels[string] = {};
+    const belongsTo: string[] = [];
+    for (const [column, value] of Object.entries(definition)) {
+        if (GENERATED_COLUMNS.includes(column)) continue;
+        if (!column.endsWith('_id') || typeof value !== 'string' || value.split(/\s+/)[0] !== 'foreignId') {
+            model[column] = value;
+            continue;
+        }
+        const key = column.slice(0, -3);
+        const parent = camel(`_${key}`);
+        const nullable = value.split(/\s+/).includes('nullable') ? ' nullable' : '';
+        if (!knownModels.includes(parent)) {
+            model[column] = `bigInteger${nullable}`;
+            continue;
+        }
+        model[column] = `id:${parent}${nullable}`;
+        belongsTo.push(parent);
+    }
+    if ('deleted_at' in definition) model.softDeletes = true;
+    for (const parent of belongsTo) appendRelation(model, 'belongsTo', parent);
+    return model;
+}
+
+/** Parse DBML or a Mermaid erDiagram into a draft object (`{ models }`) ready to dump as YAML. */
+export function importDraft(source: string, format: DraftImportFormat = detectImportFormat(source)): { models: DraftModels } {
+    return schemaToDraft(format === 'mermaid' ? parseMermaidEr(source) : parseDbml(source));
+}
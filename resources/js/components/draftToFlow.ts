@@ -1,5 +1,16 @@
 import type { Edge, Node } from 'reactflow';
-import { RELATION_LABELS } from '../constants';
+import { RELATION_LABELS, RESERVED_MODEL_KEYS } from '../constants';
+import { layoutNodes, type LayoutDirection, type NodePositions } from './autoLayout';
+import { parseColumnDefinition } from './columnFormat';
+import { applyModelGroups } from './modelGroups';
+import type { Cardinality, RelationEdgeData } from './RelationEdge';
+import {
+    NODE_SOURCE_HANDLE,
+    NODE_TARGET_HANDLE,
+    PRIMARY_KEY_HANDLE,
+    columnHandleId,
+    type ModelColumn,
+} from './ModelNode';
 
 /** Laravel-style: StudlyCase model name → snake_case table name (plural). Exported for Preview/tables list. */
 export function modelToTableName(modelName: string): string {
@@ -26,6 +37,16 @@ export function belongsToFkColumn(targetStr: string): string {
     return `${snake}_id`;
 }
 
+/**
+ * Whether a hasMany/hasOne entry on `owner` ("Post" or "Post:author") is the inverse of the foreign
+ * key `column` on the related model: its alias names the key (`author` ↔ `author_id`, as with
+ * `belongsTo: User:author`), and an entry without alias uses the owner's own key (`user_id`).
+ */
+export function inverseUsesForeignKey(owner: string, entry: string, column: string): boolean {
+    const alias = entry.split(':')[1]?.trim();
+    return column === belongsToFkColumn(alias ? `${owner}:${alias}` : owner) || column === alias;
+}
+
 export interface DraftModels {
     [modelName: string]: {
         relationships?: {
@@ -36,6 +57,10 @@ export interface DraftModels {
             morphTo?: string;
             morphMany?: string;
         };
+        /** Domain group the model is drawn in (e.g. `Billing`). */
+        group?: string;
+        /** belongsToMany pivot overrides keyed by related model. */
+        pivots?: Record<string, { table?: string; columns?: Record<string, string> }>;
         [key: string]: unknown;
     };
 }
@@ -45,20 +70,243 @@ export interface ParsedDraft {
     schema_version?: string;
 }
 
+export interface ForeignKey {
+    column: string;
+    /** Referenced model. */
+    target: string;
+    /** belongsTo entry ("User" or "User:author") that implies the key; unset for a plain `id:Model` column. */
+    relation?: string;
+}
+
+/**
+ * Foreign key columns of one model: one per belongsTo entry (the normalizer adds the column
+ * when the draft does not write it out), plus `id:Model` columns no belongsTo already covers.
+ */
+export function modelForeignKeys(def: DraftModels[string]): ForeignKey[] {
+    const keys: ForeignKey[] = [];
+    const belongsTo = def.relationships?.belongsTo;
+    if (typeof belongsTo === 'string') {
+        for (const entry of belongsTo.split(',').map((t) => t.trim())) {
+            const target = entry.split(':')[0].trim();
+            if (target) keys.push({ column: belongsToFkColumn(entry), target, relation: entry });
+        }
+    }
+    for (const [column, value] of Object.entries(def)) {
+        if (RESERVED_MODEL_KEYS.includes(column) || typeof value !== 'string') continue;
+        const parsed = parseColumnDefinition(value);
+        if (parsed.type !== 'id' || !parsed.param) continue;
+        if (keys.some((k) => k.column === column)) continue;
+        keys.push({ column, target: parsed.param });
+    }
+    return keys;
+}
+
+function snakeCase(name: string): string {
+    return name.replace(/([A-Z])/g, '_$1').toLowerCase().replace(/^_/, '');
+}
+
+export interface PivotTable {
+    table: string;
+    /** The two related models, ordered as Laravel orders them for the default table name. */
+    models: [string, string];
+    /** Extra pivot columns; the two foreign keys (`post_id`, `tag_id`) are implied. */
+    columns: Record<string, string>;
+    /** Ids of the belongsToMany relation edges (one per declaring side) this table backs. */
+    relationIds: string[];
+}
+
+/**
+ * Pivot tables for belongsToMany pairs, mirroring Draft::pivotTables() on the server:
+ * `post_tag` for Post + Tag unless either model sets `pivots.<Related>.table`, plus any
+ * `pivots.<Related>.columns`. Self-referencing pairs are skipped (they need custom keys).
+ */
+export function draftPivotTables(models: DraftModels): PivotTable[] {
+    const pairs = new Map<string, { models: [string, string]; table?: string; columns: Record<string, string>; relationIds: string[] }>();
+    for (const [source, def] of Object.entries(models)) {
+        const targets = def?.relationships?.belongsToMany;
+        if (typeof targets !== 'string') continue;
+        for (const entry of targets.split(',').map((t) => t.trim())) {
+            const target = entry.split(':')[0].trim();
+            if (!target || target === source || !models[target]) continue;
+            const ordered = [source, target].sort((a, b) => (snakeCase(a) < snakeCase(b) ? -1 : 1)) as [string, string];
+            const key = ordered.join('|');
+            const pair = pairs.get(key) ?? { models: ordered, columns: {}, relationIds: [] };
+            pairs.set(key, pair);
+            pair.relationIds.push(relationEdgeId(source, 'belongsToMany', entry));
+            for (const config of [def.pivots?.[target], models[target]?.pivots?.[source]]) {
+                if (!config || typeof config !== 'object') continue;
+                if (typeof config.table === 'string' && config.table && !pair.table) pair.table = config.table;
+                for (const [column, definition] of Object.entries(config.columns ?? {})) {
+                    if (typeof definition === 'string' && !(column in pair.columns)) pair.columns[column] = definition;
+                }
+            }
+        }
+    }
+    return [...pairs.values()].map((pair) => ({
+        table: pair.table ?? `${snakeCase(pair.models[0])}_${snakeCase(pair.models[1])}`,
+        models: pair.models,
+        columns: pair.columns,
+        relationIds: pair.relationIds,
+    }));
+}
+
+/** Edge id of a relationship entry (`Post-belongsTo-User-User_author` for `belongsTo: User:author` on Post). */
+export function relationEdgeId(source: string, relType: string, entry: string): string {
+    const target = entry.split(':')[0].trim();
+    return `${source}-${relType}-${target}-${entry.trim().replace(/:/g, '_')}`;
+}
+
+/** Pivot foreign key column for one side of a pivot table (`post_id`). */
+export function pivotFkColumn(model: string): string {
+    return `${snakeCase(model)}_id`;
+}
+
+/** Polymorphic relation names a model declares with `morphTo` (e.g. `commentable`). */
+export function morphToNames(def: DraftModels[string]): string[] {
+    const value = def?.relationships?.morphTo;
+    if (typeof value !== 'string') return [];
+    return value
+        .split(',')
+        .map((t) => t.split(':')[0].trim())
+        .filter(Boolean);
+}
+
+/**
+ * Which of the owner's morphTo names a `morphMany` entry uses: the one matching the
+ * entry's alias ("Comment:commentable"), otherwise the owner's first morphTo.
+ */
+export function morphManyName(entry: string, ownerMorphs: string[]): string | undefined {
+    const alias = entry.split(':')[1]?.trim();
+    return alias && ownerMorphs.includes(alias) ? alias : ownerMorphs[0];
+}
+
+const EDGE_LABEL_PROPS = {
+    labelStyle: { fontSize: 10 },
+    labelBgStyle: { fill: 'var(--color-card)', fillOpacity: 0.9 },
+    labelBgPadding: [4, 2] as [number, number],
+    labelBgBorderRadius: 4,
+};
+
+/** Cardinality at the source and target end of relations drawn between whole model cards. */
+const RELATION_CARDINALITIES: Record<string, [Cardinality, Cardinality]> = {
+    hasMany: ['one', 'many'],
+    hasOne: ['one', 'zeroOrOne'],
+    belongsToMany: ['many', 'many'],
+    morphMany: ['one', 'many'],
+};
+
+const NO_INVERSE_LABEL = '⚠ no inverse';
+
+function nullableColumn(def: DraftModels[string] | undefined, column: string): boolean {
+    const definition = def?.[column];
+    return typeof definition === 'string' && parseColumnDefinition(definition).modifiers.includes('nullable');
+}
+
+/**
+ * Fold each hasMany/hasOne into the foreign key edge it is the inverse of (the child's belongsTo
+ * or `id:Model` column pointing back with the key the entry names, see inverseUsesForeignKey), so
+ * the pair draws as one edge with a cardinality at each end and lists both relations in
+ * `data.relationIds`. Relations between draft models that are declared on one side only get
+ * `data.missingInverse` and a warning in their label.
+ */
+function pairInverseEdges(edges: Edge<RelationEdgeData>[], draftIds: string[]): Edge<RelationEdgeData>[] {
+    const inverses = edges.filter((e) => e.data?.relType === 'hasMany' || e.data?.relType === 'hasOne');
+    const used = new Set<string>();
+    const merged = edges.map((edge) => {
+        const relType = edge.data?.relType;
+        if (relType !== 'belongsTo' && !(relType === 'foreignKey' && !edge.data?.relationIds)) return edge;
+        const column = edge.sourceHandle?.replace(/^col:/, '') ?? '';
+        const inverse = inverses.find(
+            (e) =>
+                !used.has(e.id) &&
+                e.source === edge.target &&
+                e.target === edge.source &&
+                inverseUsesForeignKey(e.source, String(e.data?.entry ?? ''), column),
+        );
+        if (!inverse) return edge;
+        used.add(inverse.id);
+        return {
+            ...edge,
+            label: column,
+            data: {
+                ...edge.data,
+                relationIds: [edge.id, inverse.id],
+                sourceCardinality: inverse.data?.relType === 'hasOne' ? 'zeroOrOne' : 'many',
+            } satisfies RelationEdgeData,
+        };
+    });
+    return merged
+        .filter((edge) => !used.has(edge.id))
+        .map((edge) => {
+            const relType = edge.data?.relType ?? '';
+            const oneSided =
+                ['belongsTo', 'hasMany', 'hasOne', 'belongsToMany', 'morphMany'].includes(relType) &&
+                !edge.data?.relationIds &&
+                draftIds.includes(edge.source) &&
+                draftIds.includes(edge.target);
+            if (!oneSided) return edge;
+            // belongsToMany is its own inverse; only a matching declaration on the other model counts.
+            return { ...edge, label: `${edge.label} ${NO_INVERSE_LABEL}`, data: { ...edge.data, missingInverse: true } };
+        });
+}
+
+/**
+ * `created_at`/`updated_at` and `deleted_at` as the migration creates them: timestamps on every
+ * model, `deleted_at` when it sets `softDeletes`.
+ */
+function lifecycleColumns(def: DraftModels[string]): ModelColumn[] {
+    const softDeletes = def.softDeletes ? ['deleted_at'] : [];
+    return ['created_at', 'updated_at', ...softDeletes].map((name) => ({ name, definition: 'timestamp nullable', implicit: true }));
+}
+
+export interface DraftToFlowOptions {
+    /** Rank direction for the layered layout (default top-down). */
+    direction?: LayoutDirection;
+    /** Stored positions (e.g. from the layout sidecar); only models missing here are auto-placed. */
+    positions?: NodePositions;
+    /** Domain groups drawn as a summary card instead of their models. */
+    collapsedGroups?: string[];
+    /** Models that already exist in the app; the ones the draft references but does not define are drawn as external nodes. */
+    externalModels?: Array<{ name: string; table: string }>;
+}
+
 /**
  * Parse draft YAML/object into React Flow nodes and edges.
- * Nodes = one per model (id = model name). Edges = relationships.
+ * Nodes = one per model (id = model name), at their stored position or placed by the layered auto-layout.
+ * Edges = relationships. Foreign keys (belongsTo and `id:Model` columns) run from the FK column row
+ * to the target's primary key row; other relations connect the cards themselves. belongsToMany
+ * pairs get a pivot table node (id `pivot:<table>`) whose two foreign keys replace the direct edge.
+ * Polymorphic relations show `{name}_type`/`{name}_id` on the morphTo owner, with a dashed edge
+ * from `{name}_id` to every model that declares a matching morphMany.
+ * Models with a `group` are boxed per domain group (see applyModelGroups).
+ * Relations to app models missing from the draft end at a dimmed external node (`data.external`)
+ * when the model is listed in `externalModels`.
  */
-export function draftToFlow(draft: ParsedDraft): { nodes: Node[]; edges: Edge[] } {
+export function draftToFlow(draft: ParsedDraft, options: DraftToFlowOptions = {}): { nodes: Node[]; edges: Edge[] } {
     const models = draft.models ?? {};
-    const nodeIds = Object.keys(models);
-    const nodes: Node[] = nodeIds.map((id, i) => {
-        const def = models[id];
-        const columns = Object.keys(def).filter(
-            (k) =>
-                !['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits'].includes(k) &&
-                typeof def[k] === 'string',
-        );
+    const draftIds = Object.keys(models);
+    const externals = (options.externalModels ?? []).filter((m) => !draftIds.includes(m.name));
+    /** Draft models plus external ones; relations may point at either. */
+    const nodeIds = [...draftIds, ...externals.map((m) => m.name)];
+    const nodes: Node[] = draftIds.map((id) => {
+        const def = models[id] ?? {};
+        const written = Object.keys(def).filter((k) => !RESERVED_MODEL_KEYS.includes(k) && typeof def[k] === 'string');
+        const foreignKeys = modelForeignKeys(def).filter((fk) => nodeIds.includes(fk.target));
+        const references = new Map(foreignKeys.map((fk) => [fk.column, fk.target]));
+        const morphColumns = morphToNames(def).flatMap((morph) => [
+            { name: `${morph}_type`, definition: 'string', morph },
+            { name: `${morph}_id`, definition: 'unsignedBigInteger', morph },
+        ]);
+        const morphs = new Map(morphColumns.map((c) => [c.name, c.morph]));
+        const columns: ModelColumn[] = [
+            ...(written.includes('id') ? [] : [{ name: 'id', definition: 'id', implicit: true }]),
+            ...written.map((c) => ({ name: c, definition: String(def[c]), references: references.get(c), morph: morphs.get(c) })),
+            ...foreignKeys
+                .filter((fk) => !written.includes(fk.column))
+                .map((fk) => ({ name: fk.column, definition: 'foreignId', implicit: true, references: fk.target })),
+            ...morphColumns.filter((c) => !written.includes(c.name)).map((c) => ({ ...c, implicit: true })),
+            ...lifecycleColumns(def).filter((c) => !written.includes(c.name)),
+        ];
         const rels = def?.relationships;
         let relationCount = 0;
         if (rels && typeof rels === 'object') {
@@ -72,18 +320,41 @@ export function draftToFlow(draft: ParsedDraft): { nodes: Node[]; edges: Edge[]
         return {
             id,
             type: 'model',
-            position: { x: 250 + (i % 3) * 320, y: 100 + Math.floor(i / 3) * 220 },
+            position: { x: 0, y: 0 },
             data: {
                 label: id,
                 tableName: modelToTableName(id),
-                columns: columns.map((c) => `${c}: ${String(def[c])}`),
+                columns,
                 relationCount,
+                group: typeof def.group === 'string' && def.group.trim() ? def.group.trim() : undefined,
             },
         };
     });
 
+    const pivots = draftPivotTables(models);
+    const pivotRelationIds = new Set(pivots.flatMap((p) => p.relationIds));
+    for (const pivot of pivots) {
+        // A pivot between two models of the same group belongs to that group too.
+        const groups = pivot.models.map((m) => nodes.find((n) => n.id === m)?.data.group);
+        nodes.push({
+            id: `pivot:${pivot.table}`,
+            type: 'model',
+            position: { x: 0, y: 0 },
+            connectable: false,
+            data: {
+                label: pivot.table,
+                pivot: { models: pivot.models },
+                group: groups[0] && groups[0] === groups[1] ? groups[0] : undefined,
+                columns: [
+                    ...pivot.models.map((m) => ({ name: pivotFkColumn(m), definition: `id:${m}`, references: m })),
+                    ...Object.entries(pivot.columns).map(([name, definition]) => ({ name, definition })),
+                ],
+            },
+        });
+    }
+
     const edges: Edge[] = [];
-    for (const source of nodeIds) {
+    for (const source of draftIds) {
         const rels = models[source].relationships;
         if (!rels || typeof rels !== 'object') continue;
         const relTypes = ['belongsTo', 'hasMany', 'hasOne', 'belongsToMany', 'morphTo', 'morphMany'] as const;
@@ -99,21 +370,110 @@ export function draftToFlow(draft: ParsedDraft): { nodes: Node[]; edges: Edge[]
                     relType === 'belongsTo'
                         ? `${relLabel} (${belongsToFkColumn(targetEntry)})`
                         : relLabel;
-                const edgeId = `${source}-${relType}-${target}-${targetEntry.replace(/:/g, '_')}`;
+                const edgeId = relationEdgeId(source, relType, targetEntry);
+                if (pivotRelationIds.has(edgeId)) continue;
+                const morph = relType === 'morphMany' ? morphManyName(targetEntry, morphToNames(models[target] ?? {})) : undefined;
+                if (morph) {
+                    // Drawn from the owner's polymorphic key to this model, like the key it stores.
+                    edges.push({
+                        id: edgeId,
+                        source: target,
+                        target: source,
+                        sourceHandle: columnHandleId(`${morph}_id`),
+                        targetHandle: PRIMARY_KEY_HANDLE,
+                        label: `morph (${morph})`,
+                        type: 'relation',
+                        data: { relType: 'morphTo', morph, sourceCardinality: 'many', targetCardinality: 'one' },
+                        style: { strokeDasharray: '6 4' },
+                        ...EDGE_LABEL_PROPS,
+                    });
+                    continue;
+                }
+                const fkColumn = belongsToFkColumn(targetEntry);
+                const handles =
+                    relType === 'belongsTo'
+                        ? { sourceHandle: columnHandleId(fkColumn), targetHandle: PRIMARY_KEY_HANDLE }
+                        : { sourceHandle: NODE_SOURCE_HANDLE, targetHandle: NODE_TARGET_HANDLE };
+                const [sourceCardinality, targetCardinality] =
+                    relType === 'belongsTo'
+                        ? ['many', nullableColumn(models[source], fkColumn) ? 'zeroOrOne' : 'one']
+                        : RELATION_CARDINALITIES[relType];
                 edges.push({
                     id: edgeId,
                     source,
                     target,
+                    ...handles,
                     label,
-                    type: 'smoothstep',
-                    labelStyle: { fontSize: 10 },
-                    labelBgStyle: { fill: 'var(--color-card)', fillOpacity: 0.9 },
-                    labelBgPadding: [4, 2] as [number, number],
-                    labelBgBorderRadius: 4,
+                    type: 'relation',
+                    data: { relType, entry: targetEntry, sourceCardinality, targetCardinality },
+                    ...EDGE_LABEL_PROPS,
                 });
             }
         }
     }
 
-    return { nodes, edges };
+    for (const source of draftIds) {
+        for (const fk of modelForeignKeys(models[source] ?? {})) {
+            if (fk.relation || !nodeIds.includes(fk.target)) continue;
+            edges.push({
+                id: `${source}-fk-${fk.column}`,
+                source,
+                target: fk.target,
+                sourceHandle: columnHandleId(fk.column),
+                targetHandle: PRIMARY_KEY_HANDLE,
+                label: `foreign key (${fk.column})`,
+                type: 'relation',
+                data: {
+                    relType: 'foreignKey',
+                    sourceCardinality: 'many',
+                    targetCardinality: nullableColumn(models[source], fk.column) ? 'zeroOrOne' : 'one',
+                },
+                ...EDGE_LABEL_PROPS,
+            });
+        }
+    }
+
+    for (const pivot of pivots) {
+        for (const model of pivot.models) {
+            const column = pivotFkColumn(model);
+            edges.push({
+                id: `pivot:${pivot.table}-fk-${column}`,
+                source: `pivot:${pivot.table}`,
+                target: model,
+                sourceHandle: columnHandleId(column),
+                targetHandle: PRIMARY_KEY_HANDLE,
+                label: pivot.relationIds.length > 1 ? `pivot (${column})` : `pivot (${column}) ${NO_INVERSE_LABEL}`,
+                type: 'relation',
+                data: {
+                    relType: 'foreignKey',
+                    relationIds: pivot.relationIds,
+                    sourceCardinality: 'many',
+                    targetCardinality: 'one',
+                    missingInverse: pivot.relationIds.length === 1,
+                },
+                style: { strokeDasharray: '4 3' },
+                ...EDGE_LABEL_PROPS,
+            });
+        }
+    }
+
+    const paired = pairInverseEdges(edges, draftIds);
+    const referenced = new Set(paired.flatMap((e) => [e.source, e.target]));
+    for (const external of externals) {
+        if (!referenced.has(external.name)) continue;
+        nodes.push({
+            id: external.name,
+            type: 'model',
+            position: { x: 0, y: 0 },
+            connectable: false,
+            data: {
+                label: external.name,
+                tableName: external.table,
+                columns: [{ name: 'id', definition: 'id', implicit: true }],
+                external: true,
+            },
+        });
+    }
+
+    return applyModelGroups(layoutNodes(nodes, paired, options.direction, options.positions), paired, options.collapsedGroups);
 }
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import draftSchema from '../../../src/Schema/draft-schema.json';
+import normalizer from '../../../src/Services/DraftNormalizer.php?raw';
+import { RESERVED_MODEL_KEYS } from '../constants';
+import { RELATION_TYPES } from './draftEdits';
+import { PACKAGE_MODEL_KEYS, validateDraftData } from './draftValidation';
+
+const modelSchema = Object.values(draftSchema.properties.models.patternProperties)[0];
+
+describe('draft validation', () => {
+    it('knows the relationship types and model keys of draft-schema.json', () => {
+        expect([...RELATION_TYPES].sort()).toEqual(Object.keys(modelSchema.properties.relationships.properties).sort());
+        expect([...RESERVED_MODEL_KEYS].sort()).toEqual(Object.keys(modelSchema.properties).sort());
+    });
+
+    it('skips the same model keys as the normalizer', () => {
+        const keys = /RESERVED_KEYS = \[([^\]]*)\]/.exec(normalizer)?.[1].match(/'[^']+'/g)?.map((key) => key.slice(1, -1));
+        expect([...RESERVED_MODEL_KEYS, ...PACKAGE_MODEL_KEYS].sort()).toEqual(keys?.sort());
+    });
+
+    it('reports an empty draft as an error', () => {
+        expect(validateDraftData({ schema_version: '1.0' })).toEqual([
+            { message: 'Draft must contain at least one of: models, actions, pages.', path: '', severity: 'error' },
+        ]);
+    });
+
+    it('reports schema violations as warnings at their path', () => {
+        const issues = validateDraftData({
+            models: {
+                post: { title: 'string' },
+                Comment: {
+                    relationships: { belongsTo: ['Post'] },
+                    softDeletes: 'yes',
+                    seeder: { category: 'staging', count: -1 },
+                    traits: ['HasUuids', 3],
+                },
+            },
+        });
+        expect(issues.map((issue) => [issue.path, issue.severity])).toEqual([
+            ['models.post', 'warning'],
+            ['models.Comment.relationships.belongsTo', 'warning'],
+            ['models.Comment.softDeletes', 'warning'],
+            ['models.Comment.seeder.category', 'warning'],
+            ['models.Comment.seeder.count', 'warning'],
+            ['models.Comment.traits.1', 'warning'],
+        ]);
+    });
+
+    it('accepts shorthand model definitions and empty settings', () => {
+        expect(
+            validateDraftData({
+                models: {
+                    Post: ['id', 'title', 'timestamps'],
+                    Tag: null,
+                    Comment: { body: 'text', seeder: null, relationships: { belongsTo: 'Post, User:author' }, timestamps: false },
+                },
+            }),
+        ).toEqual([]);
+    });
+});
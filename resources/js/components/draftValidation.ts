@@ -0,0 +1,191 @@
+import { parseDocument } from 'yaml';
+import draftSchema from '../../../src/Schema/draft-schema.json';
+import { COLUMN_MODIFIERS, COLUMN_TYPES, RESERVED_MODEL_KEYS } from '../constants';
+import { parseColumnDefinition } from './columnFormat';
+import { locateDiagnostics, type DraftDiagnostic, type ValidationDiagnostic } from './draftDiagnostics';
+
+/** Reply of the validation worker; `source` is the YAML it checked, so answers to older text can be dropped. */
+export interface DraftValidationResult {
+    source: string;
+    diagnostics: DraftDiagnostic[];
+}
+
+/** Package keys the normalizer also keeps out of the columns (DraftNormalizer::RESERVED_KEYS). */
+export const PACKAGE_MODEL_KEYS = [
+    'media',
+    'searchable',
+    'sluggable',
+    'tags',
+    'activity_log',
+    'roles',
+    'permissions',
+    'api_tokens',
+    'oauth',
+    'notifiable',
+    'billable',
+    'filament',
+    'exportable',
+];
+
+/** The parts of JSON Schema that draft-schema.json uses. */
+interface JsonSchema {
+    type?: string;
+    enum?: unknown[];
+    minimum?: number;
+    properties?: Record<string, JsonSchema>;
+    patternProperties?: Record<string, JsonSchema>;
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+}
+
+const DRAFT_SCHEMA = draftSchema as JsonSchema;
+
+/** Model names as draft-schema.json allows them under `models`. */
+const MODEL_NAME = new RegExp(Object.keys(draftSchema.properties.models.patternProperties)[0]);
+
+const TYPE_NAMES: Record<string, string> = {
+    object: 'a mapping',
+    array: 'a list',
+    string: 'a string',
+    boolean: 'true or false',
+    integer: 'a whole number',
+    number: 'a number',
+};
+
+type Issue = Required<Pick<ValidationDiagnostic, 'message' | 'path' | 'severity'>>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const error = (path: string, message: string): Issue => ({ message, path, severity: 'error' });
+const warning = (path: string, message: string): Issue => ({ message, path, severity: 'warning' });
+
+/** Column format from SCHEMA.md: `type[:param] modifier …`, where the type may be `id:Model`. */
+function columnIssues(model: string, column: string, definition: string): Issue[] {
+    const path = `models.${model}.${column}`;
+    const label = `${model}.${column}`;
+    const { type, param, modifiers } = parseColumnDefinition(definition);
+    const issues: Issue[] = [];
+
+    if (!type) return [error(path, `${label}: needs a column type, e.g. string or id:User.`)];
+    if (type === 'id') {
+        if (!param) issues.push(error(path, `${label}: id needs a related model, e.g. id:User.`));
+        else if (!MODEL_NAME.test(param)) issues.push(error(path, `${label}: related model "${param}" must be StudlyCase (e.g. User).`));
+    } else if (!COLUMN_TYPES.some((known) => known.toLowerCase() === type.toLowerCase())) {
+        issues.push(warning(path, `${label}: unknown column type "${type}"; the migration falls back to a string column.`));
+    } else if (param !== undefined) {
+        const lower = type.toLowerCase();
+        if (lower === 'string' && !/^\d+$/.test(param)) {
+            issues.push(error(path, `${label}: string length must be a number, e.g. string:255.`));
+        } else if (lower === 'decimal' && !/^\d+,\s*\d+$/.test(param)) {
+            issues.push(warning(path, `${label}: decimal takes precision and scale (e.g. decimal:8,2); the migration uses 10,2.`));
+        } else if (lower !== 'string' && lower !== 'decimal') {
+            issues.push(warning(path, `${label}: ${type} takes no parameter; ":${param}" is ignored.`));
+        }
+    }
+
+    for (const modifier of modifiers) {
+        if (!(COLUMN_MODIFIERS as readonly string[]).includes(modifier)) {
+            issues.push(warning(path, `${label}: unknown modifier "${modifier}" is ignored (expected ${COLUMN_MODIFIERS.join(', ')}).`));
+        } else if (modifier === 'foreign' && type !== 'id') {
+            issues.push(warning(path, `${label}: foreign only applies to id:Model columns.`));
+        }
+    }
+    return issues;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'object':
+            return isRecord(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number';
+        default:
+            return typeof value === type;
+    }
+}
+
+/**
+ * Check a value against a draft-schema.json node and the nodes below it. Keys left empty
+ * (`seeder:` with nothing after it) count as unset.
+ */
+function schemaIssues(value: unknown, schema: JsonSchema, path: string): Issue[] {
+    if (value === null || value === undefined) return [];
+    if (schema.type && !matchesType(value, schema.type)) {
+        return [warning(path, `${path} must be ${TYPE_NAMES[schema.type] ?? schema.type}.`)];
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        return [warning(path, `${path} must be one of ${schema.enum.join(', ')}.`)];
+    }
+    if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+        return [warning(path, `${path} must be at least ${schema.minimum}.`)];
+    }
+    if (Array.isArray(value) && schema.items) {
+        const items = schema.items;
+        return value.flatMap((item, i) => schemaIssues(item, items, `${path}.${i}`));
+    }
+    if (!isRecord(value)) return [];
+
+    const issues: Issue[] = [];
+    for (const [key, child] of Object.entries(value)) {
+        const childPath = path ? `${path}.${key}` : key;
+        const patterns = Object.entries(schema.patternProperties ?? {}).filter(([pattern]) => new RegExp(pattern).test(key));
+        const rules = [...(schema.properties?.[key] ? [schema.properties[key]] : []), ...patterns.map(([, rule]) => rule)];
+        if (rules.length === 0 && schema.additionalProperties === false) {
+            const expected = Object.keys(schema.patternProperties ?? {}).join(' or ');
+            issues.push(warning(childPath, `"${key}" is not allowed in ${path}${expected ? ` (keys must match ${expected})` : ''}.`));
+        } else if (rules.length === 0 && typeof schema.additionalProperties === 'object') {
+            issues.push(...schemaIssues(child, schema.additionalProperties, childPath));
+        }
+        for (const rule of rules) issues.push(...schemaIssues(child, rule, childPath));
+    }
+    return issues;
+}
+
+/**
+ * Check parsed draft data against draft-schema.json and the column format in SCHEMA.md. A draft
+ * with none of models, actions and pages is an error, as on the server; schema violations are
+ * warnings, since the server does not block on them. Column parts the generators ignore or
+ * replace are warnings too.
+ */
+export function validateDraftData(data: Record<string, unknown>): ValidationDiagnostic[] {
+    const empty = (key: string) => {
+        const value = data[key];
+        return value === undefined || value === null || value === false || value === '' || (typeof value === 'object' && Object.keys(value).length === 0);
+    };
+    if (empty('models') && empty('actions') && empty('pages')) {
+        return [error('', 'Draft must contain at least one of: models, actions, pages.')];
+    }
+
+    // Column lists (`Post: [id, title]`) are a shorthand the normalizer expands before the schema applies.
+    const models = isRecord(data.models)
+        ? Object.fromEntries(Object.entries(data.models).map(([name, def]) => [name, Array.isArray(def) ? null : def]))
+        : data.models;
+    const issues = schemaIssues({ ...data, models }, DRAFT_SCHEMA, '');
+    if (isRecord(models)) {
+        for (const [name, def] of Object.entries(models)) {
+            if (!isRecord(def)) continue;
+            for (const [column, definition] of Object.entries(def)) {
+                if (RESERVED_MODEL_KEYS.includes(column) || PACKAGE_MODEL_KEYS.includes(column) || typeof definition !== 'string') continue;
+                issues.push(...columnIssues(name, column, definition));
+            }
+        }
+    }
+    return issues;
+}
+
+/**
+ * Validate draft YAML and place the findings in it. YAML syntax errors are left to the editor's
+ * own parse, so a draft that does not parse yields nothing here.
+ */
+export function validateDraftSource(source: string): DraftDiagnostic[] {
+    if (!source.trim()) return [];
+    const doc = parseDocument(source);
+    if (doc.errors.length > 0) return [];
+    const data: unknown = doc.toJS();
+    const issues = isRecord(data) ? validateDraftData(data) : [error('', 'Draft must be a YAML object.')];
+    return locateDiagnostics(source, issues, doc).filter((d): d is DraftDiagnostic => d !== null);
+}
@@ -0,0 +1,7 @@
+import { validateDraftSource, type DraftValidationResult } from './draftValidation';
+
+/** Validates draft YAML off the main thread (see validateDraftSource). */
+self.onmessage = (event: MessageEvent<string>) => {
+    const result: DraftValidationResult = { source: event.data, diagnostics: validateDraftSource(event.data) };
+    self.postMessage(result);
+};
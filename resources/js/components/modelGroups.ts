@@ -0,0 +1,140 @@
+import type { Edge, Node } from 'reactflow';
+import { estimateNodeSize } from './autoLayout';
+import { NODE_SOURCE_HANDLE, NODE_TARGET_HANDLE } from './ModelNode';
+
+/** Space between a group's border and its models; the header sits above the top padding. */
+const GROUP_PADDING = 24;
+const GROUP_HEADER_HEIGHT = 32;
+
+export interface ModelGroupNodeData {
+    label: string;
+    /** Model names in the group, in draft order. */
+    models: string[];
+    collapsed: boolean;
+    /** Relations between the group's own models (hidden while collapsed). */
+    internalRelationCount: number;
+}
+
+/** Node id of a domain group's box (or summary card when collapsed). */
+export function groupNodeId(group: string): string {
+    return `group:${group}`;
+}
+
+/** Domain group of a model node (`group:` in the draft), if any. */
+export function nodeGroup(node: Node): string | undefined {
+    const group = node.data?.group;
+    return typeof group === 'string' && group ? group : undefined;
+}
+
+/**
+ * Wrap models that share a `group` in a group node. Members become children of the group node
+ * (positions relative to it) so dragging the box moves the whole domain. Collapsed groups hide
+ * their members and render as a summary card: edges inside the group are dropped, edges crossing
+ * it are re-attached to the card and merged per pair of endpoints into one "N relations" edge
+ * whose `data.relationIds` lists the edges it stands for.
+ * Expects laid-out nodes with absolute positions; group nodes come first, as React Flow requires
+ * parents before their children.
+ */
+export function applyModelGroups(nodes: Node[], edges: Edge[], collapsed: string[] = []): { nodes: Node[]; edges: Edge[] } {
+    const members = new Map<string, Node[]>();
+    for (const node of nodes) {
+        const group = nodeGroup(node);
+        if (!group) continue;
+        members.set(group, [...(members.get(group) ?? []), node]);
+    }
+    if (members.size === 0) return { nodes, edges };
+
+    const groupNodes: Node[] = [];
+    const children = new Map<string, Node>();
+    const hiddenIn = new Map<string, string>();
+    for (const [group, groupMembers] of members) {
+        const id = groupNodeId(group);
+        const isCollapsed = collapsed.includes(group);
+        let minX = Infinity;
+        let minY = Infinity;
+        let maxX = -Infinity;
+        let maxY = -Infinity;
+        for (const member of groupMembers) {
+            const { width, height } = estimateNodeSize(member);
+            minX = Math.min(minX, member.position.x);
+            minY = Math.min(minY, member.position.y);
+            maxX = Math.max(maxX, member.position.x + width);
+            maxY = Math.max(maxY, member.position.y + height);
+        }
+        const position = { x: minX - GROUP_PADDING, y: minY - GROUP_PADDING - GROUP_HEADER_HEIGHT };
+        const memberIds = groupMembers.map((m) => m.id);
+        const internalRelationCount = edges.filter((e) => memberIds.includes(e.source) && memberIds.includes(e.target)).length;
+        groupNodes.push({
+            id,
+            type: 'modelGroup',
+            position,
+            targetPosition: groupMembers[0].targetPosition,
+            sourcePosition: groupMembers[0].sourcePosition,
+            connectable: false,
+            zIndex: -1,
+            style: isCollapsed
+                ? undefined
+                : { width: maxX - minX + GROUP_PADDING * 2, height: maxY - minY + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT },
+            data: { label: group, models: memberIds, collapsed: isCollapsed, internalRelationCount } satisfies ModelGroupNodeData,
+        });
+        for (const member of groupMembers) {
+            children.set(member.id, {
+                ...member,
+                parentNode: id,
+                expandParent: true,
+                hidden: isCollapsed,
+                position: { x: member.position.x - position.x, y: member.position.y - position.y },
+            });
+            if (isCollapsed) hiddenIn.set(member.id, id);
+        }
+    }
+
+    const visibleEdges: Edge[] = [];
+    const merged = new Map<string, Edge>();
+    for (const edge of edges) {
+        const source = hiddenIn.get(edge.source);
+        const target = hiddenIn.get(edge.target);
+        if (!source && !target) {
+            visibleEdges.push(edge);
+            continue;
+        }
+        if (source && source === target) continue;
+        const key = `${source ?? edge.source}->${target ?? edge.target}`;
+        const existing = merged.get(key);
+        const relationIds = [edge.id, ...(Array.isArray(edge.data?.relationIds) ? edge.data.relationIds : [])];
+        if (existing) {
+            const ids = [...existing.data.relationIds, ...relationIds];
+            merged.set(key, {
+                ...existing,
+                sourceHandle: source ? existing.sourceHandle : NODE_SOURCE_HANDLE,
+                targetHandle: target ? existing.targetHandle : NODE_TARGET_HANDLE,
+                label: `${existing.data.count + 1} relations`,
+                style: undefined,
+                // Cardinalities no longer describe a bundle of relations.
+                data: {
+                    ...existing.data,
+                    relationIds: ids,
+                    count: existing.data.count + 1,
+                    sourceCardinality: undefined,
+                    targetCardinality: undefined,
+                    missingInverse: undefined,
+                },
+            });
+            continue;
+        }
+        merged.set(key, {
+            ...edge,
+            id: `collapsed:${key}`,
+            source: source ?? edge.source,
+            target: target ?? edge.target,
+            sourceHandle: source ? NODE_SOURCE_HANDLE : edge.sourceHandle,
+            targetHandle: target ? NODE_TARGET_HANDLE : edge.targetHandle,
+            data: { ...edge.data, relationIds, count: 1 },
+        });
+    }
+
+    return {
+        nodes: [...groupNodes, ...nodes.map((n) => children.get(n.id) ?? n)],
+        edges: [...visibleEdges, ...merged.values()],
+    };
+}
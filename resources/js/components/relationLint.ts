@@ -0,0 +1,117 @@
+import type { Edge, Node } from 'reactflow';
+import { addColumn, addRelationship, inverseRelationEntry, type RelationType } from './draftEdits';
+import { belongsToFkColumn, inverseUsesForeignKey, modelForeignKeys, type DraftModels } from './draftToFlow';
+
+/** A declared relationship, as listed by the Studio's schema summary. */
+export interface RelationEntry {
+    source: string;
+    relType: RelationType;
+    /** Related model. */
+    target: string;
+    /** Draft entry: "User" or "User:author". */
+    entry: string;
+    edgeId: string;
+}
+
+export interface RelationFinding {
+    /** Stable key of the finding (also used as React key). */
+    id: string;
+    /** Model the warning badge is shown on. */
+    model: string;
+    message: string;
+    /** Diagram edge the finding is about, when there is one. */
+    edgeId?: string;
+    /** Quick-fix: adds the missing piece to the draft YAML. */
+    fix: { label: string; apply: (source: string) => string };
+}
+
+function camelCase(snake: string): string {
+    return snake.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Check that both sides of each relationship agree: a hasMany/hasOne needs a belongsTo back on
+ * the related model, through the foreign key its alias names (`hasMany: Post:author` ↔
+ * `belongsTo: User:author`), a belongsTo needs its foreign key column written out (otherwise the build
+ * adds an unconstrained `foreignId`), and an `id:Model` column needs a belongsTo that uses it.
+ * Related models outside the draft are not checked.
+ */
+export function lintRelations(models: DraftModels, relations: RelationEntry[]): RelationFinding[] {
+    const findings: RelationFinding[] = [];
+
+    for (const relation of relations) {
+        const { source, relType, target, entry, edgeId } = relation;
+        const oneToMany = relType === 'hasMany' || relType === 'hasOne';
+        // A belongsTo or a plain `id:Model` column pointing back counts (the latter gets its own
+        // finding below, with the same fix).
+        const pointsBack = modelForeignKeys(models[target] ?? {}).some(
+            (fk) => fk.target === source && inverseUsesForeignKey(source, entry, fk.column),
+        );
+        if (oneToMany && models[target] && !pointsBack) {
+            const inverse = inverseRelationEntry(source, relType, 'belongsTo', entry.split(':')[1]);
+            findings.push({
+                id: `inverse:${edgeId}`,
+                model: source,
+                message: `${source} ${relType} ${entry}, but ${target} has no belongsTo ${inverse}.`,
+                edgeId,
+                fix: {
+                    label: `Add belongsTo ${inverse} to ${target}`,
+                    apply: (yaml) => addRelationship(yaml, target, 'belongsTo', inverse),
+                },
+            });
+        }
+        if (relType === 'belongsTo') {
+            const column = belongsToFkColumn(entry);
+            if (column in (models[source] ?? {})) continue;
+            findings.push({
+                id: `column:${edgeId}`,
+                model: source,
+                message: `${source} belongsTo ${entry}, but has no ${column} column; the build adds it without a foreign key constraint.`,
+                edgeId,
+                fix: {
+                    label: `Add ${column}: id:${target} foreign`,
+                    apply: (yaml) => addColumn(yaml, source, column, `id:${target} foreign`),
+                },
+            });
+        }
+    }
+
+    for (const [source, def] of Object.entries(models)) {
+        for (const fk of modelForeignKeys(def ?? {})) {
+            if (fk.relation) continue;
+            const method = camelCase(fk.column.replace(/_id$/, ''));
+            const entry = belongsToFkColumn(fk.target) === fk.column ? fk.target : `${fk.target}:${method}`;
+            findings.push({
+                id: `relation:${source}.${fk.column}`,
+                model: source,
+                message: `${source}.${fk.column} references ${fk.target}, but ${source} has no belongsTo for it.`,
+                edgeId: `${source}-fk-${fk.column}`,
+                fix: {
+                    label: `Add belongsTo ${entry} to ${source}`,
+                    apply: (yaml) => addRelationship(yaml, source, 'belongsTo', entry),
+                },
+            });
+        }
+    }
+    return findings;
+}
+
+/**
+ * Decorate a flow with lint findings: model nodes get `data.warnings`, and edges the findings are
+ * about (directly or through `data.relationIds`) get `data.warnings` for their badge.
+ */
+export function applyRelationFindings(nodes: Node[], edges: Edge[], findings: RelationFinding[]): { nodes: Node[]; edges: Edge[] } {
+    if (findings.length === 0) return { nodes, edges };
+    const byModel = new Map<string, string[]>();
+    for (const finding of findings) byModel.set(finding.model, [...(byModel.get(finding.model) ?? []), finding.message]);
+    return {
+        nodes: nodes.map((node) => (byModel.has(node.id) ? { ...node, data: { ...node.data, warnings: byModel.get(node.id) } } : node)),
+        edges: edges.map((edge) => {
+            const ids: string[] = Array.isArray(edge.data?.relationIds) ? edge.data.relationIds : [];
+            const warnings = findings
+                .filter((f) => f.edgeId && (f.edgeId === edge.id || ids.includes(f.edgeId)))
+                .map((f) => f.message);
+            return warnings.length > 0 ? { ...edge, data: { ...edge.data, warnings } } : edge;
+        }),
+    };
+}
@@ -0,0 +1,78 @@
+import { RELATION_TYPES, splitRelationEntries, type RelationType } from './draftEdits';
+import { morphManyName, morphToNames, relationEdgeId, type ParsedDraft } from './draftToFlow';
+
+/** One hop of a relationship chain: calling `method` on `from` returns `to`. */
+export interface RelationStep {
+    from: string;
+    to: string;
+    relType: RelationType;
+    /** Eloquent relationship method on `from` (the alias when the draft gives one). */
+    method: string;
+    /** Diagram edge drawn for the relation (see relationEdgeId). */
+    edgeId: string;
+}
+
+/**
+ * Method name ModelGenerator gives a relation: the alias (`author` for `User:author`), otherwise
+ * the camelCased model whatever the relation type (`post`, `orderItem`).
+ */
+export function relationMethodName(entry: string): string {
+    const [target, alias] = entry.split(':').map((s) => s.trim());
+    if (alias) return alias;
+    return target.charAt(0).toLowerCase() + target.slice(1);
+}
+
+/** Relations declared on each model, as steps; morphTo fans out to every model with a matching morphMany. */
+function relationSteps(draft: ParsedDraft): Map<string, RelationStep[]> {
+    const models = draft.models ?? {};
+    const steps = new Map<string, RelationStep[]>();
+    const add = (step: RelationStep) => steps.set(step.from, [...(steps.get(step.from) ?? []), step]);
+    for (const [from, def] of Object.entries(models)) {
+        for (const relType of RELATION_TYPES) {
+            if (relType === 'morphTo') continue;
+            for (const entry of splitRelationEntries(def?.relationships?.[relType])) {
+                const to = entry.split(':')[0].trim();
+                const edgeId = relationEdgeId(from, relType, entry);
+                add({ from, to, relType, method: relationMethodName(entry), edgeId });
+                if (relType !== 'morphMany' || !models[to]) continue;
+                const morph = morphManyName(entry, morphToNames(models[to]));
+                // The owner's morphTo leads back to this model along the same edge.
+                if (morph) add({ from: to, to: from, relType: 'morphTo', method: morph, edgeId });
+            }
+        }
+    }
+    return steps;
+}
+
+/**
+ * Shortest chain of relationship methods from one model to another (breadth-first), following
+ * relations in the direction they are declared, since only declared methods can be chained.
+ * Returns an empty array when `from === to` and null when there is no chain.
+ */
+export function findRelationPath(draft: ParsedDraft, from: string, to: string): RelationStep[] | null {
+    if (from === to) return [];
+    const steps = relationSteps(draft);
+    const via = new Map<string, RelationStep>();
+    const queue = [from];
+    const seen = new Set([from]);
+    while (queue.length > 0) {
+        const model = queue.shift() as string;
+        for (const step of steps.get(model) ?? []) {
+            if (seen.has(step.to)) continue;
+            seen.add(step.to);
+            via.set(step.to, step);
+            if (step.to === to) {
+                const path: RelationStep[] = [];
+                for (let at: RelationStep | undefined = step; at; at = via.get(at.from)) path.unshift(at);
+                return path;
+            }
+            queue.push(step.to);
+        }
+    }
+    return null;
+}
+
+/** Eloquent-style chain for a path: `Comment → post → author`. */
+export function formatRelationPath(from: string, path: RelationStep[]): string {
+    return [from, ...path.map((step) => step.method)].join(' → ');
+}
@@ -1,6 +1,11 @@
 export const DRAFT_HISTORY_KEY = 'architect-draft-history';
 export const LARAVEL_RELATIONSHIPS_URL = 'https://laravel.com/docs/eloquent-relationships';
 export const DRAFT_HISTORY_MAX = 5;
+/** Quiet period after the last keystroke before the draft YAML is re-parsed for the diagram. */
+export const DRAFT_PARSE_DEBOUNCE_MS = 200;
+
+/** Top-level draft keys (src/Schema/draft-schema.json). */
+export const DRAFT_TOP_LEVEL_KEYS = ['schema_version', 'models', 'actions', 'pages', 'routes'];
 
 export const STARTER_SUMMARIES: Record<string, string> = {
     blog: 'User, Post, Comment',
@@ -16,3 +21,25 @@ export const RELATION_LABELS: Record<string, string> = {
     morphTo: 'morph to',
     morphMany: 'morph many',
 };
+
+/** Column types from docs/SCHEMA.md ("id" is the foreign key form `id:RelatedModel`). */
+export const COLUMN_TYPES = [
+    'string',
+    'text',
+    'longtext',
+    'integer',
+    'bigInteger',
+    'decimal',
+    'boolean',
+    'date',
+    'datetime',
+    'timestamp',
+    'json',
+    'uuid',
+    'id',
+] as const;
+
+export const COLUMN_MODIFIERS = ['nullable', 'unique', 'index', 'foreign'] as const;
+
+/** Model keys that are not columns. */
+export const RESERVED_MODEL_KEYS = ['relationships', 'pivots', 'group', 'seeder', 'softDeletes', 'timestamps', 'traits'];
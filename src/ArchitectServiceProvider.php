@@ -34,6 +34,7 @@ use CodingSunshine\Architect\Services\BuildPlanner;
 use CodingSunshine\Architect\Services\ChangeDetector;
 use CodingSunshine\Architect\Services\CrudStackResolver;
 use CodingSunshine\Architect\Services\DraftGenerator;
+use CodingSunshine\Architect\Services\DraftLayoutStore;
 use CodingSunshine\Architect\Services\DraftParser;
 use CodingSunshine\Architect\Services\Generators\ActionGenerator;
 use CodingSunshine\Architect\Services\Generators\ApiControllerGenerator;
@@ -93,6 +94,7 @@ final class ArchitectServiceProvider extends PackageServiceProvider
         $this->app->singleton(StateManager::class);
         $this->app->singleton(DraftParser::class);
         $this->app->singleton(DraftGenerator::class);
+        $this->app->singleton(DraftLayoutStore::class);
         $this->app->singleton(ChangeDetector::class);
         $this->app->singleton(BuildOrchestrator::class);
         $this->app->singleton(BuildPlanner::class);
@@ -201,6 +203,8 @@ final class ArchitectServiceProvider extends PackageServiceProvider
             $router->middleware('web')->get($apiPrefix.'/context', [ArchitectApiController::class, 'context'])->name('architect.api.context');
             $router->middleware('web')->get($apiPrefix.'/draft', [ArchitectApiController::class, 'getDraft'])->name('architect.api.draft.get');
             $router->middleware('web')->put($apiPrefix.'/draft', [ArchitectApiController::class, 'putDraft'])->name('architect.api.draft.put');
+            $router->middleware('web')->get($apiPrefix.'/layout', [ArchitectApiController::class, 'getLayout'])->name('architect.api.layout.get');
+            $router->middleware('web')->put($apiPrefix.'/layout', [ArchitectApiController::class, 'putLayout'])->name('architect.api.layout.put');
             $router->middleware('web')->post($apiPrefix.'/validate', [ArchitectApiController::class, 'validateDraft'])->name('architect.api.validate');
             $router->middleware('web')->post($apiPrefix.'/plan', [ArchitectApiController::class, 'plan'])->name('architect.api.plan');
             $router->middleware('web')->post($apiPrefix.'/build', [ArchitectApiController::class, 'build'])->name('architect.api.build');
@@ -9,6 +9,7 @@ use CodingSunshine\Architect\Services\AppModelService;
 use CodingSunshine\Architect\Services\BuildOrchestrator;
 use CodingSunshine\Architect\Services\BuildPlanner;
 use CodingSunshine\Architect\Services\DraftGenerator;
+use CodingSunshine\Architect\Services\DraftLayoutStore;
 use CodingSunshine\Architect\Services\DraftParser;
 use CodingSunshine\Architect\Services\ImportService;
 use CodingSunshine\Architect\Services\PackageSuggestionService;
@@ -20,6 +21,7 @@ use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\File;
 use Illuminate\Support\Str;
+use Symfony\Component\Yaml\Exception\ParseException;
 use Symfony\Component\Yaml\Yaml;
 
 final class ArchitectApiController
@@ -73,6 +75,46 @@ final class ArchitectApiController
         return response()->json(['valid' => true, 'saved' => true]);
     }
 
+    public function getLayout(DraftLayoutStore $layout): JsonResponse
+    {
+        return response()->json($layout->load());
+    }
+
+    /**
+     * Store diagram state in the draft's layout sidecar. PUT body: positions (model => { x, y }) and/or
+     * views (list of saved diagram views); whatever is omitted is left as stored.
+     */
+    public function putLayout(Request $request, DraftLayoutStore $layout): JsonResponse
+    {
+        $positions = $request->input('positions');
+        $views = $request->input('views');
+
+        if ($positions === null && $views === null) {
+            return response()->json(['error' => 'positions or views is required.'], 422);
+        }
+        if ($positions !== null && ! is_array($positions)) {
+            return response()->json(['error' => 'positions must be an object of model name => { x, y }.'], 422);
+        }
+        if ($views !== null && ! is_array($views)) {
+            return response()->json(['error' => 'views must be a list of views.'], 422);
+        }
+
+        $response = ['saved' => true];
+        if (is_array($positions)) {
+            $response['positions'] = $layout->savePositions($positions);
+        }
+        if (is_array($views)) {
+            $response['views'] = $layout->saveViews($views);
+        }
+
+        return response()->json($response);
+    }
+
+    /**
+     * Validate the draft. With a yaml body the response also has diagnostics: the errors with the
+     * dotted path of the offending key (e.g. models.Post.relationships.belongsTo) or, for YAML
+     * syntax errors, the line, so the Studio can place them in the editor.
+     */
     public function validateDraft(Request $request, DraftParser $parser, SchemaValidator $validator): JsonResponse
     {
         $yaml = $request->input('yaml');
@@ -81,16 +123,30 @@ final class ArchitectApiController
             try {
                 $data = Yaml::parse($yaml);
             } catch (\Throwable $e) {
-                return response()->json(['valid' => false, 'errors' => ['Invalid YAML: '.$e->getMessage()]]);
+                $message = 'Invalid YAML: '.$e->getMessage();
+                $diagnostic = ['message' => $message];
+                if ($e instanceof ParseException && $e->getParsedLine() > 0) {
+                    $diagnostic['line'] = $e->getParsedLine();
+                }
+
+                return response()->json(['valid' => false, 'errors' => [$message], 'diagnostics' => [$diagnostic]]);
             }
 
             if (! is_array($data)) {
-                return response()->json(['valid' => false, 'errors' => ['Draft must be a YAML object.']]);
+                return response()->json([
+                    'valid' => false,
+                    'errors' => ['Draft must be a YAML object.'],
+                    'diagnostics' => [['message' => 'Draft must be a YAML object.', 'path' => '']],
+                ]);
             }
 
-            $errors = $validator->validate($data);
+            $diagnostics = $validator->errors($data);
 
-            return response()->json(['valid' => $errors === [], 'errors' => $errors]);
+            return response()->json([
+                'valid' => $diagnostics === [],
+                'errors' => array_column($diagnostics, 'message'),
+                'diagnostics' => $diagnostics,
+            ]);
         }
 
         $path = config('architect.draft_path', base_path('draft.yaml'));
@@ -263,6 +319,7 @@ final class ArchitectApiController
     public function status(StateManager $state): JsonResponse
     {
         $data = $state->load();
+        $data['built_draft'] = $state->getBuiltDraft((string) config('architect.draft_path', base_path('draft.yaml')));
 
         return response()->json($data);
     }
@@ -313,7 +370,7 @@ final class ArchitectApiController
             if ($def) {
                 $gen = app(\CodingSunshine\Architect\Services\Generators\ModelGenerator::class);
 
-                return response()->json(['code' => $gen->renderModel($name, $def)]);
+                return response()->json(['code' => $gen->renderModel($name, $def, $draft->pivotTables())]);
             }
         }
 
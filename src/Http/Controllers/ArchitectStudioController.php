@@ -4,6 +4,7 @@ declare(strict_types=1);
 
 namespace CodingSunshine\Architect\Http\Controllers;
 
+use CodingSunshine\Architect\Services\DraftLayoutStore;
 use CodingSunshine\Architect\Services\DraftParser;
 use CodingSunshine\Architect\Services\StudioContextService;
 use CodingSunshine\Architect\Services\UiDriverDetector;
@@ -17,7 +18,7 @@ final class ArchitectStudioController
     /**
      * @return View|\Inertia\Response
      */
-    public function __invoke(UiDriverDetector $detector, StudioContextService $contextService): mixed
+    public function __invoke(UiDriverDetector $detector, StudioContextService $contextService, DraftLayoutStore $layoutStore): mixed
     {
         $driver = config('architect.ui.driver', 'auto');
 
@@ -29,6 +30,7 @@ final class ArchitectStudioController
             $props = $contextService->build();
             $draftPath = config('architect.draft_path', base_path('draft.yaml'));
             $props['draft'] = File::exists($draftPath) ? File::get($draftPath) : '';
+            $props['layout'] = $layoutStore->load();
 
             return view('architect::studio-standalone', ['architectProps' => $props]);
         }
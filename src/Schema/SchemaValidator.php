@@ -13,9 +13,21 @@ final class SchemaValidator
      * @return array<int, string> List of error messages
      */
     public function validate(array $data): array
+    {
+        return array_map(fn (array $error): string => $error['message'], $this->errors($data));
+    }
+
+    /**
+     * Validate data against the draft schema, with the dotted path of the key each error is about
+     * ('' for the whole draft) so editors can place it on a line.
+     *
+     * @param  array<string, mixed>  $data
+     * @return list<array{message: string, path: string}>
+     */
+    public function errors(array $data): array
     {
         if (empty($data['models']) && empty($data['actions']) && empty($data['pages'])) {
-            return ['Draft must contain at least one of: models, actions, pages.'];
+            return [['message' => 'Draft must contain at least one of: models, actions, pages.', 'path' => '']];
         }
 
         return [];
@@ -60,7 +60,7 @@ final class BuildOrchestrator
         }
 
         if ($errors === []) {
-            $state->update($draftPath, $draftHash, $generated);
+            $state->update($draftPath, $draftHash, $generated, (string) File::get($draftPath));
             if ($backup !== []) {
                 $state->saveLastBuildBackup($backup);
             }
@@ -0,0 +1,166 @@
+<?php
+
+declare(strict_types=1);
+
+namespace CodingSunshine\Architect\Services;
+
+use Illuminate\Support\Facades\File;
+
+/**
+ * Sidecar file next to the draft (draft.yaml → draft.layout.json) holding Studio diagram state
+ * that is not part of the schema, such as manually arranged node positions and saved views.
+ */
+final class DraftLayoutStore
+{
+    public function path(): string
+    {
+        $draftPath = config('architect.draft_path', base_path('draft.yaml'));
+        $info = pathinfo($draftPath);
+        $dir = ($info['dirname'] ?? '.') === '.' ? '' : $info['dirname'].DIRECTORY_SEPARATOR;
+
+        return $dir.$info['filename'].'.layout.json';
+    }
+
+    /**
+     * @return array{positions: array<string, array{x: float, y: float}>, views: list<array<string, mixed>>}&array<string, mixed>
+     */
+    public function load(): array
+    {
+        $path = $this->path();
+
+        if (! File::exists($path)) {
+            return $this->defaultLayout();
+        }
+
+        try {
+            $data = json_decode(File::get($path), true, 512, JSON_THROW_ON_ERROR);
+        } catch (\JsonException) {
+            return $this->defaultLayout();
+        }
+
+        if (! is_array($data)) {
+            return $this->defaultLayout();
+        }
+
+        $data['positions'] = $this->sanitizePositions($data['positions'] ?? []);
+        $data['views'] = $this->sanitizeViews($data['views'] ?? []);
+
+        return $data;
+    }
+
+    /**
+     * Replace stored node positions, keeping any other keys in the sidecar.
+     *
+     * @param  array<mixed>  $positions  model name => { x, y }
+     * @return array<string, array{x: float, y: float}>
+     */
+    public function savePositions(array $positions): array
+    {
+        $layout = $this->load();
+        $layout['positions'] = $this->sanitizePositions($positions);
+        $this->save($layout);
+
+        return $layout['positions'];
+    }
+
+    /**
+     * Replace saved diagram views, keeping any other keys in the sidecar.
+     *
+     * @param  array<mixed>  $views  list of { name, models?, group?, touching?, viewport?, showMinimap }
+     * @return list<array<string, mixed>>
+     */
+    public function saveViews(array $views): array
+    {
+        $layout = $this->load();
+        $layout['views'] = $this->sanitizeViews($views);
+        $this->save($layout);
+
+        return $layout['views'];
+    }
+
+    /**
+     * @param  array<string, mixed>  $layout
+     */
+    public function save(array $layout): void
+    {
+        $path = $this->path();
+        File::ensureDirectoryExists(dirname($path));
+        File::put($path, json_encode($layout, JSON_PRETTY_PRINT | JSON_UNESCAPED_SLASHES | JSON_THROW_ON_ERROR));
+    }
+
+    /**
+     * @param  mixed  $positions
+     * @return array<string, array{x: float, y: float}>
+     */
+    private function sanitizePositions(mixed $positions): array
+    {
+        if (! is_array($positions)) {
+            return [];
+        }
+
+        $clean = [];
+        foreach ($positions as $model => $position) {
+            if (! is_string($model) || ! is_array($position)) {
+                continue;
+            }
+            if (! is_numeric($position['x'] ?? null) || ! is_numeric($position['y'] ?? null)) {
+                continue;
+            }
+            $clean[$model] = ['x' => round((float) $position['x'], 1), 'y' => round((float) $position['y'], 1)];
+        }
+
+        return $clean;
+    }
+
+    /**
+     * Named views: which models are shown (an explicit list, a domain group, or one model and
+     * everything related to it; all models when none is set), the viewport and the minimap toggle.
+     * Views without a name are dropped; a later view replaces an earlier one of the same name.
+     *
+     * @param  mixed  $views
+     * @return list<array<string, mixed>>
+     */
+    private function sanitizeViews(mixed $views): array
+    {
+        if (! is_array($views)) {
+            return [];
+        }
+
+        $clean = [];
+        foreach ($views as $view) {
+            if (! is_array($view) || ! is_string($view['name'] ?? null) || trim($view['name']) === '') {
+                continue;
+            }
+            $name = trim($view['name']);
+            $entry = ['name' => $name];
+            if (is_array($view['models'] ?? null)) {
+                $entry['models'] = array_values(array_filter($view['models'], 'is_string'));
+            }
+            foreach (['group', 'touching'] as $key) {
+                if (is_string($view[$key] ?? null) && $view[$key] !== '') {
+                    $entry[$key] = $view[$key];
+                }
+            }
+            $viewport = $view['viewport'] ?? null;
+            if (is_array($viewport) && is_numeric($viewport['x'] ?? null) && is_numeric($viewport['y'] ?? null) && is_numeric($viewport['zoom'] ?? null)) {
+                $entry['viewport'] = [
+                    'x' => round((float) $viewport['x'], 1),
+                    'y' => round((float) $viewport['y'], 1),
+                    'zoom' => round((float) $viewport['zoom'], 3),
+                ];
+            }
+            $entry['showMinimap'] = (bool) ($view['showMinimap'] ?? true);
+            $clean[$name] = $entry;
+        }
+
+        return array_values($clean);
+    }
+
+    /**
+     * @return array{positions: array<string, array{x: float, y: float}>, views: list<array<string, mixed>>}
+     */
+    private function defaultLayout(): array
+    {
+        return ['positions' => [], 'views' => []];
+    }
+}
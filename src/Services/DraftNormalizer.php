@@ -11,7 +11,7 @@ use Illuminate\Support\Str;
  */
 final class DraftNormalizer
 {
-    private const RESERVED_KEYS = ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits', 'media', 'searchable', 'sluggable', 'tags', 'activity_log', 'roles', 'permissions', 'api_tokens', 'oauth', 'notifiable', 'billable', 'filament', 'exportable'];
+    private const RESERVED_KEYS = ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits', 'pivots', 'group', 'media', 'searchable', 'sluggable', 'tags', 'activity_log', 'roles', 'permissions', 'api_tokens', 'oauth', 'notifiable', 'billable', 'filament', 'exportable'];
 
     public function __construct(
         private readonly ColumnTypeInferrer $columnTypeInferrer,
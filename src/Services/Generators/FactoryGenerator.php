@@ -13,7 +13,7 @@ use Illuminate\Support\Facades\File;
 
 final class FactoryGenerator implements GeneratorInterface
 {
-    private const SKIP_KEYS = ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits'];
+    private const SKIP_KEYS = ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits', 'pivots', 'group'];
 
     public function generate(Draft $draft, string $draftPath): BuildResult
     {
@@ -56,6 +56,32 @@ final class MigrationGenerator implements GeneratorInterface
             ];
         }
 
+        foreach ($draft->pivotTables() as $tableName => $pivot) {
+            $content = $this->renderPivotMigration($tableName, $pivot['models'], $pivot['columns']);
+
+            $existingPath = $this->stateManager->getGeneratedPathForTable($tableName);
+            if ($existingPath !== null && File::exists($existingPath)) {
+                $path = $existingPath;
+            } else {
+                // One second later than the model tables so the pivot's foreign keys find them.
+                $filename = date('Y_m_d_His', time() + 1).'_create_'.$tableName.'_table.php';
+                $path = "{$basePath}/{$filename}";
+            }
+
+            if (File::exists($path)) {
+                $backup[$path] = File::get($path);
+            }
+            File::ensureDirectoryExists($basePath);
+            File::put($path, $content);
+
+            $generated[$path] = [
+                'path' => $path,
+                'hash' => HashComputer::compute($content),
+                'ownership' => FileOwnership::Regenerate->value,
+                'table' => $tableName,
+            ];
+        }
+
         return new BuildResult(generated: $generated, backup: $backup);
     }
 
@@ -97,6 +123,55 @@ return new class extends Migration
     }
 };
 
+PHP;
+    }
+
+    /**
+     * @param  array{0: string, 1: string}  $models
+     * @param  array<string, string>  $columns  extra pivot columns
+     */
+    private function renderPivotMigration(string $tableName, array $models, array $columns): string
+    {
+        $keys = [];
+        $lines = [];
+        foreach ($models as $model) {
+            $key = Str::snake($model).'_id';
+            $keys[] = "'{$key}'";
+            $lines[] = "            \$table->foreignId('{$key}')->constrained('".Str::snake(Str::plural($model))."')->cascadeOnDelete();";
+        }
+        foreach ($columns as $columnName => $definition) {
+            $line = $this->columnDefinitionToMigration($columnName, $definition);
+            if ($line !== '') {
+                $lines[] = '            '.$line;
+            }
+        }
+        $lines[] = '            $table->primary(['.implode(', ', $keys).']);';
+        $body = implode("\n", $lines);
+
+        return <<<PHP
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('{$tableName}', function (Blueprint \$table): void {
+{$body}
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('{$tableName}');
+    }
+};
+
 PHP;
     }
 
@@ -109,7 +184,7 @@ PHP;
         $usesSoftDeletes = ! empty($modelDef['softDeletes']);
 
         foreach ($modelDef as $columnName => $definition) {
-            if (in_array($columnName, ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits'], true)) {
+            if (in_array($columnName, ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits', 'pivots', 'group'], true)) {
                 continue;
             }
             if (! is_string($definition)) {
@@ -171,7 +246,7 @@ PHP;
             case 'integer':
                 $php = "\$table->integer('{$columnName}')";
                 break;
-            case 'bigInteger':
+            case 'biginteger':
                 $php = "\$table->unsignedBigInteger('{$columnName}')";
                 break;
             case 'decimal':
@@ -57,6 +57,13 @@ final class ModelGenerator implements GeneratorInterface
         ],
     ];
 
+    /**
+     * Model keys that are settings rather than columns.
+     *
+     * @var list<string>
+     */
+    private const RESERVED_KEYS = ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits', 'pivots', 'group'];
+
     public function __construct(
         private readonly ?PackageSuggestionService $suggestionService = null,
     ) {}
@@ -73,7 +80,7 @@ final class ModelGenerator implements GeneratorInterface
                 continue;
             }
 
-            $content = $this->renderModel($modelName, $modelDef);
+            $content = $this->renderModel($modelName, $modelDef, $draft->pivotTables());
             $path = "{$basePath}/{$modelName}.php";
 
             if (File::exists($path)) {
@@ -99,12 +106,13 @@ final class ModelGenerator implements GeneratorInterface
 
     /**
      * @param  array<string, mixed>  $modelDef
+     * @param  array<string, array{models: array{0: string, 1: string}, columns: array<string, string>}>  $pivotTables  from Draft::pivotTables()
      */
-    public function renderModel(string $modelName, array $modelDef): string
+    public function renderModel(string $modelName, array $modelDef, array $pivotTables = []): string
     {
         $fillable = $this->extractFillable($modelDef);
         $casts = $this->extractCasts($modelDef);
-        $relationships = $this->extractRelationships($modelDef);
+        $relationships = $this->withPivotTables($modelName, $this->extractRelationships($modelDef), $pivotTables);
         $explicitTraits = $modelDef['traits'] ?? [];
         $schemaTraits = $this->extractSchemaTraits($modelDef);
         $traits = array_unique(array_merge($explicitTraits, $schemaTraits));
@@ -307,7 +315,7 @@ PHP;
     {
         $searchableFields = [];
         foreach ($modelDef as $key => $value) {
-            if (is_string($value) && ! in_array($key, ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits', 'searchable', 'media', 'sluggable'], true)) {
+            if (is_string($value) && ! in_array($key, ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits', 'group', 'searchable', 'media', 'sluggable'], true)) {
                 $searchableFields[] = "'{$key}' => \$this->{$key}";
             }
         }
@@ -333,7 +341,7 @@ PHP;
     {
         $fillable = [];
         foreach ($modelDef as $key => $value) {
-            if (in_array($key, ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits'], true)) {
+            if (in_array($key, self::RESERVED_KEYS, true)) {
                 continue;
             }
             if (is_string($value) && str_contains($value, 'id') && preg_match('/^[\w_]+_id$/', $key)) {
@@ -354,7 +362,7 @@ PHP;
     {
         $casts = [];
         foreach ($modelDef as $key => $value) {
-            if (! is_string($value)) {
+            if (in_array($key, self::RESERVED_KEYS, true) || ! is_string($value)) {
                 continue;
             }
             if (str_contains($value, 'timestamp') || str_contains($value, 'date')) {
@@ -397,6 +405,32 @@ PHP;
         return $out;
     }
 
+    /**
+     * Set `table` on belongsToMany relationships whose pivot table has a custom name.
+     *
+     * @param  list<array<string, string>>  $relationships
+     * @param  array<string, array{models: array{0: string, 1: string}, columns: array<string, string>}>  $pivotTables
+     * @return list<array<string, string>>
+     */
+    private function withPivotTables(string $modelName, array $relationships, array $pivotTables): array
+    {
+        foreach ($relationships as $i => $rel) {
+            if ($rel['type'] !== 'belongsToMany') {
+                continue;
+            }
+            foreach ($pivotTables as $table => $pivot) {
+                if (! in_array($modelName, $pivot['models'], true) || ! in_array($rel['model'], $pivot['models'], true)) {
+                    continue;
+                }
+                if ($table !== Str::snake($pivot['models'][0]).'_'.Str::snake($pivot['models'][1])) {
+                    $relationships[$i]['table'] = $table;
+                }
+            }
+        }
+
+        return $relationships;
+    }
+
     /**
      * @param  array<string>  $fillable
      */
@@ -465,10 +499,12 @@ PHP;
                 default => 'Relation',
             };
 
+            $arguments = "\\App\\Models\\{$model}::class".(isset($rel['table']) ? ", '{$rel['table']}'" : '');
+
             $lines[] = <<<PHP
     public function {$method}(): \\Illuminate\\Database\\Eloquent\\Relations\\{$returnType}
     {
-        return \$this->{$type}(\\App\\Models\\{$model}::class);
+        return \$this->{$type}({$arguments});
     }
 PHP;
         }
@@ -14,7 +14,7 @@ use Illuminate\Support\Str;
 
 final class RequestGenerator implements GeneratorInterface
 {
-    private const SKIP_KEYS = ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits'];
+    private const SKIP_KEYS = ['relationships', 'seeder', 'softDeletes', 'timestamps', 'traits', 'pivots', 'group'];
 
     public function generate(Draft $draft, string $draftPath): BuildResult
     {
@@ -47,6 +47,17 @@ final class StateManager
         return $drafts[$draftPath]['hash'] ?? null;
     }
 
+    /**
+     * Draft source as it was at the last successful build, for diffing against the current draft.
+     */
+    public function getBuiltDraft(string $draftPath): ?string
+    {
+        $state = $this->load();
+        $source = $state['drafts'][$draftPath]['source'] ?? null;
+
+        return is_string($source) ? $source : null;
+    }
+
     /**
      * Returns the path of a generated migration that creates the given table, if any.
      */
@@ -66,8 +77,9 @@ final class StateManager
 
     /**
      * @param  array<string, mixed>  $generated
+     * @param  string|null  $draftSource  draft YAML that was built (kept for "changes since last build")
      */
-    public function update(string $draftPath, string $draftHash, array $generated): void
+    public function update(string $draftPath, string $draftHash, array $generated, ?string $draftSource = null): void
     {
         $state = $this->load();
         $state['version'] = '1.0.0';
@@ -77,6 +89,9 @@ final class StateManager
             'hash' => $draftHash,
             'lastBuilt' => now()->toIso8601String(),
         ];
+        if ($draftSource !== null) {
+            $state['drafts'][$draftPath]['source'] = $draftSource;
+        }
         $state['generated'] = array_merge($state['generated'] ?? [], $generated);
         $this->save($state);
     }
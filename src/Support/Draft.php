@@ -4,6 +4,8 @@ declare(strict_types=1);
 
 namespace CodingSunshine\Architect\Support;
 
+use Illuminate\Support\Str;
+
 final class Draft
 {
     /**
@@ -35,4 +37,55 @@ final class Draft
     {
         return $this->models[$name] ?? null;
     }
+
+    /**
+     * Pivot tables implied by belongsToMany relationships, keyed by table name. The default name
+     * joins both snake_case model names alphabetically (Post + Tag → post_tag), as Laravel does.
+     * Either model can set `pivots.<RelatedModel>.table` and add `pivots.<RelatedModel>.columns`.
+     *
+     * @return array<string, array{models: array{0: string, 1: string}, columns: array<string, string>}>
+     */
+    public function pivotTables(): array
+    {
+        $pairs = [];
+        foreach ($this->models as $name => $def) {
+            $targets = $def['relationships']['belongsToMany'] ?? null;
+            if (! is_string($targets)) {
+                continue;
+            }
+            foreach (array_map('trim', explode(',', $targets)) as $entry) {
+                $target = trim(explode(':', $entry)[0]);
+                // Self-referencing pivots need custom key names, which the draft cannot express yet.
+                if ($target === '' || $target === $name || ! isset($this->models[$target])) {
+                    continue;
+                }
+                $models = [$name, $target];
+                usort($models, fn (string $a, string $b): int => strcmp(Str::snake($a), Str::snake($b)));
+                $key = implode('|', $models);
+                $pairs[$key] ??= ['models' => $models, 'table' => null, 'columns' => []];
+
+                foreach ([$this->models[$name]['pivots'][$target] ?? null, $this->models[$target]['pivots'][$name] ?? null] as $config) {
+                    if (! is_array($config)) {
+                        continue;
+                    }
+                    if (is_string($config['table'] ?? null) && $config['table'] !== '') {
+                        $pairs[$key]['table'] ??= $config['table'];
+                    }
+                    foreach (is_array($config['columns'] ?? null) ? $config['columns'] : [] as $column => $definition) {
+                        if (is_string($column) && is_string($definition)) {
+                            $pairs[$key]['columns'][$column] ??= $definition;
+                        }
+                    }
+                }
+            }
+        }
+
+        $tables = [];
+        foreach ($pairs as $pair) {
+            $table = $pair['table'] ?? Str::snake($pair['models'][0]).'_'.Str::snake($pair['models'][1]);
+            $tables[$table] = ['models' => $pair['models'], 'columns' => $pair['columns']];
+        }
+
+        return $tables;
+    }
 }
@@ -3,6 +3,7 @@
 declare(strict_types=1);
 
 use CodingSunshine\Architect\Services\BuildOrchestrator;
+use CodingSunshine\Architect\Services\StateManager;
 
 beforeEach(function () {
     $this->base = base_path();
@@ -67,3 +68,10 @@ it('respects only option', function () {
     $paths = array_keys($result->generated);
     expect($paths)->toContain(app_path('Models/Post.php'));
 });
+
+it('stores the built draft source in the state file', function () {
+    $this->orchestrator->build($this->draftPath);
+    $state = json_decode((string) file_get_contents($this->statePath), true);
+    expect($state['drafts'][$this->draftPath]['source'])->toBe(file_get_contents($this->draftPath))
+        ->and(app(StateManager::class)->getBuiltDraft($this->draftPath))->toBe(file_get_contents($this->draftPath));
+});
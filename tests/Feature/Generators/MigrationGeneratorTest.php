@@ -0,0 +1,78 @@
+<?php
+
+declare(strict_types=1);
+
+use CodingSunshine\Architect\Services\Generators\MigrationGenerator;
+use CodingSunshine\Architect\Support\Draft;
+
+beforeEach(function () {
+    $this->statePath = base_path('.architect-state-test-'.uniqid().'.json');
+    config(['architect.state_path' => $this->statePath]);
+    $this->generated = [];
+    $this->models = [
+        'Post' => [
+            'title' => 'string:255',
+            'relationships' => ['belongsToMany' => 'Tag'],
+        ],
+        'Tag' => [
+            'name' => 'string:255',
+            'relationships' => ['belongsToMany' => 'Post'],
+        ],
+    ];
+});
+
+afterEach(function () {
+    foreach ($this->generated as $path) {
+        @unlink($path);
+    }
+    if (file_exists($this->statePath)) {
+        @unlink($this->statePath);
+    }
+});
+
+it('generates a pivot migration for belongsToMany pairs', function () {
+    $models = $this->models;
+    $models['Post']['pivots'] = ['Tag' => ['columns' => ['sort_order' => 'integer']]];
+    $result = app(MigrationGenerator::class)->generate(new Draft(models: $models), base_path('draft.yaml'));
+    $this->generated = array_keys($result->generated);
+
+    $pivotPath = collect($this->generated)->first(fn (string $path) => str_ends_with($path, '_create_post_tag_table.php'));
+    expect($pivotPath)->not->toBeNull();
+    $content = (string) file_get_contents($pivotPath);
+    expect($content)->toContain("Schema::create('post_tag'")
+        ->and($content)->toContain("\$table->foreignId('post_id')->constrained('posts')->cascadeOnDelete();")
+        ->and($content)->toContain("\$table->foreignId('tag_id')->constrained('tags')->cascadeOnDelete();")
+        ->and($content)->toContain("\$table->integer('sort_order')")
+        ->and($content)->toContain("\$table->primary(['post_id', 'tag_id']);")
+        ->and($content)->not->toContain('$table->id();');
+});
+
+it('dates the pivot migration after the tables it references', function () {
+    $result = app(MigrationGenerator::class)->generate(new Draft(models: $this->models), base_path('draft.yaml'));
+    $this->generated = array_keys($result->generated);
+
+    $filenames = array_map('basename', $this->generated);
+    $pivot = collect($filenames)->first(fn (string $name) => str_ends_with($name, '_create_post_tag_table.php'));
+    foreach (['posts', 'tags'] as $table) {
+        $create = collect($filenames)->first(fn (string $name) => str_ends_with($name, "_create_{$table}_table.php"));
+        expect(strcmp($create, $pivot))->toBeLessThan(0);
+    }
+});
+
+it('uses a custom pivot table name', function () {
+    $models = $this->models;
+    $models['Post']['pivots'] = ['Tag' => ['table' => 'post_tags']];
+    $result = app(MigrationGenerator::class)->generate(new Draft(models: $models), base_path('draft.yaml'));
+    $this->generated = array_keys($result->generated);
+
+    $pivotPath = collect($this->generated)->first(fn (string $path) => str_ends_with($path, '_create_post_tags_table.php'));
+    expect($pivotPath)->not->toBeNull()
+        ->and((string) file_get_contents($pivotPath))->toContain("Schema::create('post_tags'");
+});
+
+it('generates unsigned big integer columns', function () {
+    $result = app(MigrationGenerator::class)->generate(new Draft(models: ['Visit' => ['team_id' => 'bigInteger nullable']]), base_path('draft.yaml'));
+    $this->generated = array_keys($result->generated);
+
+    expect((string) file_get_contents($this->generated[0]))->toContain("\$table->unsignedBigInteger('team_id')->nullable();");
+});
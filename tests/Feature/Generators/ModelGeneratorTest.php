@@ -32,3 +32,66 @@ it('does not support empty models draft', function () {
     $generator = app(ModelGenerator::class);
     expect($generator->supports($draft))->toBeFalse();
 });
+
+it('does not treat the domain group as a column', function () {
+    $draft = new Draft(models: [
+        'Invoice' => [
+            'group' => 'Billing',
+            'total' => 'decimal:10,2',
+        ],
+    ]);
+    $generator = app(ModelGenerator::class);
+    $generator->generate($draft, base_path('draft.yaml'));
+    $content = (string) file_get_contents(app_path('Models/Invoice.php'));
+    expect($content)->toContain("'total'")
+        ->and($content)->not->toContain("'group'");
+});
+
+it('does not cast the domain group when its name looks like a column type', function () {
+    $draft = new Draft(models: [
+        'Digest' => [
+            'group' => 'Updates',
+            'sent_at' => 'timestamp nullable',
+        ],
+        'Export' => [
+            'group' => 'Json Feeds',
+            'payload' => 'json',
+        ],
+    ]);
+    $generator = app(ModelGenerator::class);
+    $generator->generate($draft, base_path('draft.yaml'));
+    $digest = (string) file_get_contents(app_path('Models/Digest.php'));
+    $export = (string) file_get_contents(app_path('Models/Export.php'));
+    expect($digest)->toContain("'sent_at' => 'datetime'")
+        ->and($digest)->not->toContain("'group'")
+        ->and($export)->toContain("'payload' => 'array'")
+        ->and($export)->not->toContain("'group'");
+});
+
+it('passes a custom pivot table to belongsToMany', function () {
+    $draft = new Draft(models: [
+        'Post' => [
+            'title' => 'string:255',
+            'relationships' => ['belongsToMany' => 'Tag'],
+            'pivots' => ['Tag' => ['table' => 'post_tags']],
+        ],
+        'Tag' => [
+            'name' => 'string:255',
+            'relationships' => ['belongsToMany' => 'Post'],
+        ],
+    ]);
+    $generator = app(ModelGenerator::class);
+    $generator->generate($draft, base_path('draft.yaml'));
+    expect((string) file_get_contents(app_path('Models/Post.php')))->toContain("belongsToMany(\\App\\Models\\Tag::class, 'post_tags')")
+        ->and((string) file_get_contents(app_path('Models/Tag.php')))->toContain("belongsToMany(\\App\\Models\\Post::class, 'post_tags')");
+});
+
+it('keeps the default belongsToMany table implicit', function () {
+    $draft = new Draft(models: [
+        'Post' => ['title' => 'string:255', 'relationships' => ['belongsToMany' => 'Tag']],
+        'Tag' => ['name' => 'string:255', 'relationships' => ['belongsToMany' => 'Post']],
+    ]);
+    $generator = app(ModelGenerator::class);
+    $generator->generate($draft, base_path('draft.yaml'));
+    expect((string) file_get_contents(app_path('Models/Post.php')))->toContain('belongsToMany(\\App\\Models\\Tag::class)');
+});
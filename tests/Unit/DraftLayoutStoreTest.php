@@ -0,0 +1,78 @@
+<?php
+
+declare(strict_types=1);
+
+use CodingSunshine\Architect\Services\DraftLayoutStore;
+
+beforeEach(function () {
+    $this->dir = sys_get_temp_dir().'/architect-layout-test-'.uniqid();
+    mkdir($this->dir);
+    config(['architect.draft_path' => $this->dir.'/draft.yaml']);
+    $this->store = app(DraftLayoutStore::class);
+});
+
+afterEach(function () {
+    if (isset($this->dir) && file_exists($this->dir.'/draft.layout.json')) {
+        @unlink($this->dir.'/draft.layout.json');
+    }
+    if (isset($this->dir) && is_dir($this->dir)) {
+        @rmdir($this->dir);
+    }
+});
+
+it('derives the sidecar path from the draft path', function () {
+    expect($this->store->path())->toBe($this->dir.'/draft.layout.json');
+});
+
+it('loads empty positions and views when sidecar does not exist', function () {
+    expect($this->store->load())->toBe(['positions' => [], 'views' => []]);
+});
+
+it('saves and loads node positions', function () {
+    $this->store->savePositions(['Post' => ['x' => 120, 'y' => 40.25], 'User' => ['x' => -10, 'y' => 0]]);
+
+    expect($this->store->load()['positions'])->toBe([
+        'Post' => ['x' => 120.0, 'y' => 40.3],
+        'User' => ['x' => -10.0, 'y' => 0.0],
+    ]);
+});
+
+it('drops malformed positions', function () {
+    $saved = $this->store->savePositions(['Post' => ['x' => 'a', 'y' => 1], 'User' => 'left', 0 => ['x' => 1, 'y' => 1]]);
+
+    expect($saved)->toBe([]);
+});
+
+it('keeps other sidecar keys when saving positions', function () {
+    $this->store->save(['positions' => [], 'extra' => ['kept' => true]]);
+    $this->store->savePositions(['Post' => ['x' => 1, 'y' => 2]]);
+
+    expect($this->store->load()['extra'])->toBe(['kept' => true]);
+});
+
+it('saves and loads views, keeping positions', function () {
+    $this->store->savePositions(['Post' => ['x' => 1, 'y' => 2]]);
+    $this->store->saveViews([
+        ['name' => 'Billing only', 'group' => 'Billing', 'viewport' => ['x' => 10, 'y' => -20.55, 'zoom' => 0.75], 'showMinimap' => false],
+        ['name' => 'Picked', 'models' => ['Post', 'User', 3]],
+    ]);
+
+    $layout = $this->store->load();
+
+    expect($layout['positions'])->toBe(['Post' => ['x' => 1.0, 'y' => 2.0]])
+        ->and($layout['views'])->toBe([
+            ['name' => 'Billing only', 'group' => 'Billing', 'viewport' => ['x' => 10.0, 'y' => -20.6, 'zoom' => 0.75], 'showMinimap' => false],
+            ['name' => 'Picked', 'models' => ['Post', 'User'], 'showMinimap' => true],
+        ]);
+});
+
+it('drops unnamed views and keeps the last view of a name', function () {
+    $saved = $this->store->saveViews([
+        ['name' => ' ', 'group' => 'Billing'],
+        'not a view',
+        ['name' => 'Users', 'touching' => 'User'],
+        ['name' => 'Users', 'touching' => 'Team', 'viewport' => ['x' => 'left']],
+    ]);
+
+    expect($saved)->toBe([['name' => 'Users', 'touching' => 'Team', 'showMinimap' => true]]);
+});
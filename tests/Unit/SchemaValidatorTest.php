@@ -47,3 +47,9 @@ it('returns error when models actions and pages are all empty', function () {
         ->and($errors[0])->toContain('actions')
         ->and($errors[0])->toContain('pages');
 });
+
+it('reports the draft-level error with an empty path', function () {
+    expect($this->validator->errors(['schema_version' => '1.0']))->toBe([
+        ['message' => 'Draft must contain at least one of: models, actions, pages.', 'path' => ''],
+    ]);
+});
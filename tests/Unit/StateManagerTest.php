@@ -55,3 +55,14 @@ it('returns generated path for table when tracked', function () {
         ->toBe('/db/migrations/2024_01_01_000000_create_posts_table.php')
         ->and($this->state->getGeneratedPathForTable('users'))->toBeNull();
 });
+
+it('keeps the built draft source per draft path', function () {
+    expect($this->state->getBuiltDraft('draft.yaml'))->toBeNull();
+
+    $this->state->update('draft.yaml', 'h1', [], "models:\n  Post:\n    title: string\n");
+    expect($this->state->getBuiltDraft('draft.yaml'))->toBe("models:\n  Post:\n    title: string\n")
+        ->and($this->state->getBuiltDraft('other.yaml'))->toBeNull();
+
+    $this->state->update('draft.yaml', 'h2', []);
+    expect($this->state->getBuiltDraft('draft.yaml'))->toBeNull();
+});
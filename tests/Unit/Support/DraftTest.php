@@ -23,3 +23,30 @@ it('defaults to empty arrays and schema 1.0', function () {
         ->and($draft->routes)->toBe([])
         ->and($draft->schemaVersion)->toBe('1.0');
 });
+
+it('derives pivot tables from belongsToMany relationships', function () {
+    $draft = new Draft(models: [
+        'Tag' => ['relationships' => ['belongsToMany' => 'Post']],
+        'Post' => ['relationships' => ['belongsToMany' => 'Tag']],
+    ]);
+    expect($draft->pivotTables())->toBe([
+        'post_tag' => ['models' => ['Post', 'Tag'], 'columns' => []],
+    ]);
+});
+
+it('uses custom pivot table names and columns from either side', function () {
+    $draft = new Draft(models: [
+        'Post' => ['relationships' => ['belongsToMany' => 'Tag']],
+        'Tag' => ['pivots' => ['Post' => ['table' => 'taggings', 'columns' => ['sort_order' => 'integer']]]],
+    ]);
+    expect($draft->pivotTables())->toBe([
+        'taggings' => ['models' => ['Post', 'Tag'], 'columns' => ['sort_order' => 'integer']],
+    ]);
+});
+
+it('skips pivots for unknown and self-referencing models', function () {
+    $draft = new Draft(models: [
+        'User' => ['relationships' => ['belongsToMany' => 'User, Role']],
+    ]);
+    expect($draft->pivotTables())->toBe([]);
+});